@@ -1,5 +1,5 @@
 /**
- * Random Shosha Bot - Auto-posting bot for X (Twitter) and Bluesky
+ * Random Shosha Bot - Auto-posting bot for X (Twitter), Bluesky, Mastodon and Misskey
  * All code in one file for Google Apps Script compatibility
  */
 
@@ -17,7 +17,8 @@ interface BaseSentenceMetadata {
 
 interface JapaneseSentenceResponse extends BaseSentenceMetadata {
   char_count: number;
-  card_url: string;
+  // Not used: the card image is generated from the sentence through the OGP endpoint
+  card_url?: string;
 }
 
 interface EnglishSentenceResponse extends BaseSentenceMetadata {
@@ -26,9 +27,18 @@ interface EnglishSentenceResponse extends BaseSentenceMetadata {
 
 type Language = 'ja' | 'en';
 
+type Platform = 'x' | 'bluesky' | 'mastodon' | 'misskey';
+
+type TemplateSlot = 'text' | 'card_title' | 'card_description' | 'recap' | 'roundup';
+
+type BlueskyEmbedMode = 'external' | 'images';
+
+type SentenceResponse = JapaneseSentenceResponse | EnglishSentenceResponse;
+
 interface ShareContent {
   text: string;
   url: string;
+  lang: Language;
 }
 
 interface XCredentials {
@@ -43,662 +53,5779 @@ interface BlueskyCredentials {
   password: string;
 }
 
-// ============================================================================
-// API Functions
-// ============================================================================
+interface ImageDimensions {
+  width: number;
+  height: number;
+}
 
-const JAPANESE_API_URL = 'https://rmc-8.com/api/random-shosha';
-const ENGLISH_API_URL = 'https://rmc-8.com/api/random-shosha-en';
+interface BlueskyFacet {
+  index: { byteStart: number; byteEnd: number };
+  features: Array<any>;
+}
 
-function fetchJapaneseSentence(): JapaneseSentenceResponse {
-  try {
-    const response = UrlFetchApp.fetch(JAPANESE_API_URL);
-    const data = JSON.parse(response.getContentText()) as JapaneseSentenceResponse;
-    Logger.log(`Fetched Japanese sentence: ${data.title} - ${data.author}`);
-    return data;
-  } catch (error) {
-    Logger.log(`Japanese API fetch error: ${error}`);
-    throw new Error('Failed to fetch data from Japanese API');
-  }
+interface BlueskySession {
+  accessJwt: string;
+  refreshJwt: string;
+  did: string;
 }
 
-function fetchEnglishSentence(): EnglishSentenceResponse {
-  try {
-    const response = UrlFetchApp.fetch(ENGLISH_API_URL);
-    const data = JSON.parse(response.getContentText()) as EnglishSentenceResponse;
-    Logger.log(`Fetched English sentence: ${data.title} - ${data.author}`);
-    return data;
-  } catch (error) {
-    Logger.log(`English API fetch error: ${error}`);
-    throw new Error('Failed to fetch data from English API');
-  }
+interface MastodonCredentials {
+  instanceUrl: string;
+  accessToken: string;
 }
 
-// ============================================================================
-// URL Generation Functions
-// ============================================================================
+interface MisskeyCredentials {
+  instanceUrl: string;
+  accessToken: string;
+}
 
-function generateShareUrl(bookId: string, sentenceId: number, lang: Language): string {
-  const encodedBookId = encodeURIComponent(bookId);
-  if (lang === 'en') {
-    return `https://rmc-8.com/shosha/random_shosha_en/?book_id=${encodedBookId}&sentence_id=${sentenceId}`;
-  }
-  return `https://rmc-8.com/shosha/random_shosha/?book_id=${encodedBookId}&sentence_id=${sentenceId}`;
+/**
+ * One entry of the account registry
+ * credentials maps each credential field to the Script Properties key holding it
+ */
+interface AccountConfig {
+  name: string;
+  platform: Platform;
+  languages: Language[];
+  enabled: boolean;
+  credentials: Record<string, string>;
 }
 
-function generateHashtags(bookId: string, sentenceId: number, lang: Language): string {
-  const cleanBookId = bookId.replace(/-/g, '');
-  const mainHashtag = lang === 'ja' ? '#ランダム書写' : '#random_shosha';
-  return `${mainHashtag} #${cleanBookId}_${sentenceId}`;
+/**
+ * Maximum post length as measured by the platform's own counting rules
+ */
+interface TextLimit {
+  maxLength: number;
+  measure: (text: string) => number;
 }
 
-function generateJapaneseShareContent(data: JapaneseSentenceResponse): ShareContent {
-  const shareUrl = generateShareUrl(data.book_id, data.sentence_id, 'ja');
-  const hashtags = generateHashtags(data.book_id, data.sentence_id, 'ja');
-  const text = `『${data.title}』${data.author}著\n${hashtags}\n${shareUrl}`;
-  return { text, url: shareUrl };
+/**
+ * A platform account the bot can post to
+ */
+interface Publisher<TCredentials = unknown> {
+  name: string;
+  platform: Platform;
+  textLimit: TextLimit;
+  loadCredentials: () => TCredentials;
+  publish: (content: ShareContent, sentence: SentenceResponse) => PostOutcome;
+  preview: (content: ShareContent, sentence: SentenceResponse) => PostPreview;
 }
 
-function generateEnglishShareContent(data: EnglishSentenceResponse): ShareContent {
-  const shareUrl = generateShareUrl(data.book_id, data.sentence_id, 'en');
-  const hashtags = generateHashtags(data.book_id, data.sentence_id, 'en');
-  const text = `"${data.title}" by ${data.author}\n${hashtags}\n${shareUrl}`;
-  return { text, url: shareUrl };
+type RequestErrorKind =
+  | 'rate_limited'
+  | 'transient'
+  | 'network'
+  | 'auth'
+  | 'validation'
+  | 'unexpected';
+
+type RequestResult =
+  | { ok: true; response: GoogleAppsScript.URL_Fetch.HTTPResponse }
+  | { ok: false; error: RequestError };
+
+/**
+ * Fetch options, or a builder called on every attempt for requests that must be re-signed
+ */
+type FetchOptions =
+  | GoogleAppsScript.URL_Fetch.URLFetchRequestOptions
+  | (() => GoogleAppsScript.URL_Fetch.URLFetchRequestOptions);
+
+/**
+ * Identifies a created post: tweet/status/note ID, or AT URI plus CID on Bluesky
+ */
+interface PostReference {
+  id: string;
+  cid?: string;
+  permalink: string;
+  postedAt: string;
 }
 
-// ============================================================================
-// X (Twitter) Functions
-// ============================================================================
+type PostOutcome =
+  | { success: true; post: PostReference }
+  | { success: false; error: RequestError };
 
-function generateOAuthSignature(
-  method: string,
-  url: string,
-  params: Record<string, string>,
-  consumerSecret: string,
-  tokenSecret: string
-): string {
-  const sortedParams = Object.keys(params)
-    .sort()
-    .map((key) => `${encodeURIComponent(key)}=${encodeURIComponent(params[key]!)}`)
-    .join('&');
+/**
+ * A Bluesky call's result with the session to use next, renewed if the token was rejected
+ */
+type BlueskyOutcome<T> = T & { session: BlueskySession };
 
-  const signatureBaseString = [
-    method.toUpperCase(),
-    encodeURIComponent(url),
-    encodeURIComponent(sortedParams),
-  ].join('&');
+/**
+ * What a publisher would send, built without calling the platform
+ */
+interface PostPreview {
+  payload: unknown;
+  imageUrl: string;
+  thread?: string[];
+  errors: string[];
+}
 
-  const signingKey = `${encodeURIComponent(consumerSecret)}&${encodeURIComponent(tokenSecret)}`;
+interface PublishResult {
+  // Publisher (account) name, e.g. "X" or "x-sub-account"
+  account: string;
+  platform: Platform;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  errorKind?: RequestErrorKind;
+  status?: number;
+  post?: PostReference;
+  preview?: PostPreview;
+}
 
-  const signature = Utilities.computeHmacSignature(
-    Utilities.MacAlgorithm.HMAC_SHA_1,
-    signatureBaseString,
-    signingKey
-  );
+/**
+ * Outcome of one entry point run, used for notifications
+ */
+interface RunReport {
+  label: string;
+  lang: Language;
+  dryRun: boolean;
+  sentence: SentenceResponse | null;
+  results: PublishResult[];
+  resumed?: boolean;
+  error?: string;
+}
 
-  return Utilities.base64Encode(signature);
+interface Notifier {
+  name: string;
+  send: (subject: string, body: string) => boolean;
 }
 
-function generateOAuthHeader(
-  method: string,
-  url: string,
-  params: Record<string, string>,
-  credentials: XCredentials
-): string {
-  const timestamp = Math.floor(Date.now() / 1000).toString();
-  const nonce = Utilities.getUuid();
+/**
+ * How often a schedule entry fires: every day, once a week, or every few hours
+ */
+type ScheduleInterval = 'daily' | 'weekly' | 'hourly';
 
-  const oauthParams: Record<string, string> = {
-    oauth_consumer_key: credentials.apiKey,
-    oauth_token: credentials.accessToken,
-    oauth_signature_method: 'HMAC-SHA1',
-    oauth_timestamp: timestamp,
-    oauth_nonce: nonce,
-    oauth_version: '1.0',
-    ...params,
-  };
+/**
+ * A handler's firing time as wall-clock time in timeZone
+ * Weekly entries fire on weekDay (0 = Sunday); hourly entries ignore the time of day
+ */
+interface ScheduleEntry {
+  handler: string;
+  timeZone: string;
+  hour: number;
+  minute: number;
+  interval: ScheduleInterval;
+  weekDay?: number;
+  everyHours?: number;
+}
 
-  const signature = generateOAuthSignature(
-    method,
-    url,
-    oauthParams,
-    credentials.apiSecret,
-    credentials.accessTokenSecret
-  );
+interface RunOptions {
+  platforms?: Platform[];
+  dryRun?: boolean;
+  resumeOnly?: boolean;
+  // Draw a new sentence even when a pending run could be resumed
+  fresh?: boolean;
+  sentenceRef?: SentenceRef;
+}
 
-  oauthParams.oauth_signature = signature;
+interface SentenceRef {
+  book_id: string;
+  sentence_id: number;
+}
 
-  const headerParams = Object.keys(oauthParams)
-    .filter((key) => key.startsWith('oauth_'))
-    .sort()
-    .map((key) => `${encodeURIComponent(key)}="${encodeURIComponent(oauthParams[key]!)}"`)
-    .join(', ');
+/**
+ * Compact record of a run for the web dashboard
+ */
+interface RunSummary {
+  runAt: string;
+  label: string;
+  lang: Language;
+  resumed: boolean;
+  sentence: string;
+  error: string;
+  results: Array<{
+    account: string;
+    platform: Platform;
+    status: string;
+    permalink: string;
+    error: string;
+  }>;
+}
 
-  return `OAuth ${headerParams}`;
+/**
+ * A run that posted to some accounts and failed on others, kept so a retry reuses its sentence
+ * Accounts are keyed by publisher name
+ */
+interface PendingRun {
+  lang: Language;
+  sentence: SentenceResponse;
+  startedAt: string;
+  accounts: Record<string, PendingAccount>;
 }
 
-function postToX(text: string, credentials: XCredentials): boolean {
-  const url = 'https://api.twitter.com/2/tweets';
-  const method = 'POST';
+interface PendingAccount {
+  status: 'posted' | 'failed';
+  attempts: number;
+  post?: PostReference;
+  error?: string;
+}
 
-  try {
-    const payload = { text };
-    const payloadString = JSON.stringify(payload);
-    const authHeader = generateOAuthHeader(method, url, {}, credentials);
+interface NotificationConfig {
+  onlyOnFailure: boolean;
+  suppressHours: number;
+}
 
-    const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
-      method: 'post',
-      contentType: 'application/json',
-      headers: {
-        Authorization: authHeader,
-      },
-      payload: payloadString,
-      muteHttpExceptions: true,
-    };
+/**
+ * How to fetch and format a sentence for one language
+ */
+interface LanguagePipeline<T extends SentenceResponse> {
+  lang: Language;
+  label: string;
+  fetchSentence: () => T;
+  generateShareContent: (data: T, platform?: Platform) => ShareContent;
+}
 
-    const response = UrlFetchApp.fetch(url, options);
-    const responseCode = response.getResponseCode();
-    const responseText = response.getContentText();
+interface PostHistoryEntry {
+  lang: Language;
+  book_id: string;
+  sentence_id: number;
+  postedAt: string;
+}
 
-    if (responseCode === 201) {
-      Logger.log(`X post successful: ${responseText}`);
-      return true;
-    } else {
-      Logger.log(`X post failed (${responseCode}): ${responseText}`);
-      return false;
-    }
-  } catch (error) {
-    Logger.log(`X post error: ${error}`);
-    return false;
-  }
+/**
+ * Stored form of a PostHistoryEntry: [book_id, sentence_id, postedAt in epoch seconds]
+ * The language is implied by the property key
+ */
+type StoredPostHistoryEntry = [string, number, number];
+
+interface EngagementCounts {
+  likes: number;
+  reposts: number;
+  replies: number;
+  quotes: number;
+  impressions: number | null;
+}
+
+/**
+ * A successful post from the post log, with the account that made it
+ */
+interface TrackedPost {
+  lang: Language;
+  book_id: string;
+  sentence_id: number;
+  title: string;
+  author: string;
+  account: AccountConfig;
+  postId: string;
+  postedAt: string;
+}
+
+/**
+ * One row of the Metrics sheet: a post's counts at collection time
+ */
+interface MetricsSnapshot extends EngagementCounts {
+  collectedAt: string;
+  lang: Language;
+  book_id: string;
+  sentence_id: number;
+  title: string;
+  author: string;
+  account: string;
+  postId: string;
+}
+
+interface EngagementAggregate {
+  dimension: 'book' | 'author' | 'lang';
+  key: string;
+  posts: number;
+  likes: number;
+  reposts: number;
+  replies: number;
+  quotes: number;
+}
+
+/**
+ * One of the week's most engaged prompts in one language, with every post made of it
+ */
+interface RecapPick {
+  lang: Language;
+  rank: number;
+  book_id: string;
+  sentence_id: number;
+  title: string;
+  author: string;
+  engagement: number;
+  posts: TrackedPost[];
+}
+
+/**
+ * Weekly recap progress of one account in one language
+ * quoted holds the posts already quoted by an unfinished recap, so a retry skips them
+ */
+interface RecapState {
+  postedAt: string | null;
+  quoted: string[];
+}
+
+/**
+ * A follower's Bluesky post with an image under a sentence tag
+ */
+interface Submission {
+  uri: string;
+  cid: string;
+  did: string;
+  handle: string;
+  tag: string;
+  lang: Language;
+  indexedAt: string;
+  liked: boolean;
+  reposted: boolean;
+}
+
+interface PostHistoryConfig {
+  windowDays: number;
+  maxDraws: number;
+  avoidSameBook: boolean;
+}
+
+/**
+ * Per-language sentence filters; length is char_count for ja and word_count for en
+ * Books match by book_id or title, authors by name, keywords as substrings of the sentence
+ */
+interface ContentFilterConfig {
+  minLength: number | null;
+  maxLength: number | null;
+  allowBooks: string[];
+  blockBooks: string[];
+  allowAuthors: string[];
+  blockAuthors: string[];
+  blockKeywords: string[];
 }
 
 // ============================================================================
-// Bluesky Functions
+// HTTP Functions
 // ============================================================================
 
-const BLUESKY_API_BASE = 'https://bsky.social/xrpc';
+const EXECUTION_STARTED_AT = Date.now();
+// GAS stops executions at 6 minutes; keep headroom for the remaining platforms
+const EXECUTION_BUDGET_MS = 5 * 60 * 1000;
+const RETRY_MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 1000;
 
-function createBlueskySession(credentials: BlueskyCredentials): string | null {
-  const url = `${BLUESKY_API_BASE}/com.atproto.server.createSession`;
+class RequestError extends Error {
+  constructor(
+    readonly kind: RequestErrorKind,
+    readonly status: number | null,
+    readonly responseText: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RequestError';
+  }
 
-  try {
-    const payload = {
-      identifier: credentials.identifier,
-      password: credentials.password,
-    };
+  get retryable(): boolean {
+    return this.kind === 'rate_limited' || this.kind === 'transient' || this.kind === 'network';
+  }
+}
 
-    const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
-      method: 'post',
-      contentType: 'application/json',
-      payload: JSON.stringify(payload),
-      muteHttpExceptions: true,
-    };
+function classifyStatus(status: number): RequestErrorKind | null {
+  if (status >= 200 && status < 300) {
+    return null;
+  }
+  if (status === 429) {
+    return 'rate_limited';
+  }
+  if (status === 408 || status >= 500) {
+    return 'transient';
+  }
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  return 'validation';
+}
 
-    const response = UrlFetchApp.fetch(url, options);
-    const responseCode = response.getResponseCode();
+function getResponseHeader(
+  response: GoogleAppsScript.URL_Fetch.HTTPResponse,
+  name: string
+): string | null {
+  const headers = response.getHeaders() as Record<string, unknown>;
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === name);
+  return key ? String(headers[key]) : null;
+}
 
-    if (responseCode === 200) {
-      const data = JSON.parse(response.getContentText());
-      Logger.log('Bluesky session created successfully');
-      return data.accessJwt;
-    } else {
-      Logger.log(`Bluesky session creation failed (${responseCode}): ${response.getContentText()}`);
-      return null;
+/**
+ * Wait requested by the server via Retry-After (seconds or HTTP date)
+ * or an epoch-seconds reset header (X: x-rate-limit-reset, Bluesky: ratelimit-reset)
+ */
+function getRetryAfterMs(response: GoogleAppsScript.URL_Fetch.HTTPResponse): number | null {
+  const retryAfter = getResponseHeader(response, 'retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return seconds * 1000;
     }
-  } catch (error) {
-    Logger.log(`Bluesky session creation error: ${error}`);
-    return null;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const reset =
+    getResponseHeader(response, 'x-rate-limit-reset') ||
+    getResponseHeader(response, 'ratelimit-reset');
+  if (reset && !isNaN(Number(reset))) {
+    return Math.max(0, Number(reset) * 1000 - Date.now());
   }
+  return null;
+}
+
+function getRemainingExecutionMs(): number {
+  return EXECUTION_BUDGET_MS - (Date.now() - EXECUTION_STARTED_AT);
 }
 
 /**
- * Generate OGP image URL directly from sentence data
+ * Fetch with retries for rate limits, 5xx and network errors
+ * Permanent 4xx errors are returned immediately; waits never exceed the execution budget.
+ * Non-idempotent creates only retry 429s: after a 5xx or a network error the post may exist
  */
-function generateOGPImageUrl(
-  sentenceText: string,
-  title: string,
-  author: string,
-  lang: Language
-): string {
-  const params = [
-    `sentence=${encodeURIComponent(sentenceText)}`,
-    `title=${encodeURIComponent(title)}`,
-    `author=${encodeURIComponent(author)}`,
-    `lang=${encodeURIComponent(lang)}`
-  ].join('&');
+function fetchWithRetry(
+  label: string,
+  url: string,
+  options: FetchOptions = {},
+  idempotent: boolean = true
+): RequestResult {
+  let error: RequestError | null = null;
 
-  const ogpUrl = `https://rmc-8.com/api/og-shosha?${params}`;
-  Logger.log(`Generated OGP image URL: ${ogpUrl}`);
-  return ogpUrl;
+  for (let attempt = 1; attempt <= RETRY_MAX_ATTEMPTS; attempt++) {
+    let retryAfterMs: number | null = null;
+
+    try {
+      const requestOptions = {
+        ...(typeof options === 'function' ? options() : options),
+        muteHttpExceptions: true,
+      };
+      const response = UrlFetchApp.fetch(url, requestOptions);
+      const status = response.getResponseCode();
+      const kind = classifyStatus(status);
+      if (!kind) {
+        return { ok: true, response };
+      }
+
+      const responseText = response.getContentText();
+      const message = `${label} failed (${status}): ${responseText}`;
+      error = new RequestError(kind, status, responseText, message);
+      if (kind === 'rate_limited') {
+        retryAfterMs = getRetryAfterMs(response);
+      }
+    } catch (fetchError) {
+      error = new RequestError('network', null, '', `${label} error: ${fetchError}`);
+    }
+
+    const retryable = idempotent ? error.retryable : error.kind === 'rate_limited';
+    if (!retryable || attempt === RETRY_MAX_ATTEMPTS) {
+      break;
+    }
+
+    const jitterMs = Math.floor(Math.random() * 250);
+    const backoffMs = RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1) + jitterMs;
+    const delayMs = retryAfterMs !== null ? Math.max(retryAfterMs, backoffMs) : backoffMs;
+    if (delayMs > getRemainingExecutionMs()) {
+      Logger.log(`${label}: retry in ${delayMs}ms exceeds execution budget, giving up`);
+      break;
+    }
+
+    Logger.log(`${label}: ${error.kind} on attempt ${attempt}, retrying in ${delayMs}ms`);
+    Utilities.sleep(delayMs);
+  }
+
+  Logger.log(error!.message);
+  return { ok: false, error: error! };
+}
+
+/**
+ * Wrap a non-HTTP exception (parse error, etc.) so callers always see a RequestError
+ */
+function toRequestError(label: string, error: unknown): RequestError {
+  if (error instanceof RequestError) {
+    return error;
+  }
+  return new RequestError('unexpected', null, '', `${label} error: ${error}`);
+}
+
+/**
+ * Download an image for re-upload; returns null so callers can post without it
+ */
+function downloadImage(imageUrl: string): GoogleAppsScript.Base.Blob | null {
+  const result = fetchWithRetry('Image download', imageUrl);
+  if (!result.ok) {
+    return null;
+  }
+
+  const imageBlob = result.response.getBlob();
+  Logger.log(`Downloading image: ${imageUrl}, MIME: ${imageBlob.getContentType()}`);
+  return imageBlob;
+}
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+const JAPANESE_API_URL = 'https://rmc-8.com/api/random-shosha';
+const ENGLISH_API_URL = 'https://rmc-8.com/api/random-shosha-en';
+// Upper bounds well above the longest sentences in the corpus; anything larger is a bad record
+const MAX_SENTENCE_CHAR_COUNT = 5000;
+const MAX_SENTENCE_WORD_COUNT = 2000;
+
+/**
+ * The API answered 2xx but the body is not a usable sentence; aborts the run before posting
+ */
+class SentenceValidationError extends Error {
+  constructor(
+    readonly lang: Language,
+    readonly problems: string[],
+    readonly responseText: string
+  ) {
+    super(`${lang} API response is invalid: ${problems.join('; ')}`);
+    this.name = 'SentenceValidationError';
+  }
+}
+
+function requireNonEmptyString(
+  record: Record<string, unknown>,
+  field: string,
+  problems: string[]
+): void {
+  const value = record[field];
+  if (typeof value !== 'string') {
+    problems.push(`${field} must be a string (got ${describeJsonValue(value)})`);
+  } else if (!value.trim()) {
+    problems.push(`${field} must not be empty`);
+  }
+}
+
+function requireIntegerInRange(
+  record: Record<string, unknown>,
+  field: string,
+  min: number,
+  max: number,
+  problems: string[]
+): void {
+  const value = record[field];
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    problems.push(`${field} must be an integer (got ${describeJsonValue(value)})`);
+  } else if (value < min || value > max) {
+    problems.push(`${field} must be between ${min} and ${max} (got ${value})`);
+  }
+}
+
+function describeJsonValue(value: unknown): string {
+  if (value === undefined) {
+    return 'missing';
+  }
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value === 'string' ? JSON.stringify(value) : typeof value;
+}
+
+/**
+ * Parse and check a sentence response field by field
+ * Collects every problem so one log line explains the whole bad payload
+ */
+function parseSentenceResponse(lang: Language, responseText: string): SentenceResponse {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(responseText);
+  } catch (error) {
+    const preview = responseText.substring(0, 80).replace(/\s+/g, ' ');
+    throw new SentenceValidationError(lang, [`body is not JSON: ${preview}`], responseText);
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    const problem = `body must be a JSON object (got ${describeJsonValue(parsed)})`;
+    throw new SentenceValidationError(lang, [problem], responseText);
+  }
+
+  const record = parsed as Record<string, unknown>;
+  const problems: string[] = [];
+  ['sentence_text', 'book_id', 'title', 'author'].forEach((field) =>
+    requireNonEmptyString(record, field, problems)
+  );
+  requireIntegerInRange(record, 'sentence_id', 0, Number.MAX_SAFE_INTEGER, problems);
+
+  if (lang === 'ja') {
+    requireIntegerInRange(record, 'char_count', 1, MAX_SENTENCE_CHAR_COUNT, problems);
+  } else {
+    requireIntegerInRange(record, 'word_count', 1, MAX_SENTENCE_WORD_COUNT, problems);
+  }
+
+  if (problems.length > 0) {
+    throw new SentenceValidationError(lang, problems, responseText);
+  }
+  return record as unknown as SentenceResponse;
+}
+
+/**
+ * SENTENCE_LOOKUP_URL_JA / SENTENCE_LOOKUP_URL_EN: endpoint returning one sentence,
+ * with {book_id} and {sentence_id} placeholders. The random endpoints take no parameters,
+ * so re-posting is unavailable until a lookup endpoint is configured
+ */
+function getSentenceLookupUrl(lang: Language, ref: SentenceRef): string | null {
+  const template = PropertiesService.getScriptProperties().getProperty(
+    `SENTENCE_LOOKUP_URL_${lang.toUpperCase()}`
+  );
+  if (!template) {
+    return null;
+  }
+  return template
+    .replace('{book_id}', encodeURIComponent(ref.book_id))
+    .replace('{sentence_id}', String(ref.sentence_id));
+}
+
+/**
+ * Fetch one specific sentence for a re-post
+ * A response for any other sentence is rejected rather than posted in its place
+ */
+function fetchSentenceById(lang: Language, ref: SentenceRef): SentenceResponse {
+  const url = getSentenceLookupUrl(lang, ref);
+  if (!url) {
+    throw new Error(`Re-posting needs SENTENCE_LOOKUP_URL_${lang.toUpperCase()}`);
+  }
+  const result = fetchWithRetry(`${lang} API fetch by id`, url);
+  if (!result.ok) {
+    throw result.error;
+  }
+
+  const responseText = result.response.getContentText();
+  const data = parseSentenceResponse(lang, responseText);
+  if (data.book_id !== ref.book_id || data.sentence_id !== ref.sentence_id) {
+    const problem =
+      `requested ${ref.book_id}/${ref.sentence_id} ` +
+      `but got ${data.book_id}/${data.sentence_id}`;
+    throw new SentenceValidationError(lang, [problem], responseText);
+  }
+  Logger.log(`Fetched ${lang} sentence by id: ${data.title} - ${data.author}`);
+  return data;
+}
+
+function fetchJapaneseSentence(): JapaneseSentenceResponse {
+  const result = fetchWithRetry('Japanese API fetch', JAPANESE_API_URL);
+  if (!result.ok) {
+    throw result.error;
+  }
+
+  const responseText = result.response.getContentText();
+  const data = parseSentenceResponse('ja', responseText) as JapaneseSentenceResponse;
+  Logger.log(`Fetched Japanese sentence: ${data.title} - ${data.author}`);
+  return data;
+}
+
+function fetchEnglishSentence(): EnglishSentenceResponse {
+  const result = fetchWithRetry('English API fetch', ENGLISH_API_URL);
+  if (!result.ok) {
+    throw result.error;
+  }
+
+  const responseText = result.response.getContentText();
+  const data = parseSentenceResponse('en', responseText) as EnglishSentenceResponse;
+  Logger.log(`Fetched English sentence: ${data.title} - ${data.author}`);
+  return data;
+}
+
+// ============================================================================
+// Template Functions
+// ============================================================================
+
+const TEMPLATE_PLACEHOLDERS = [
+  'title',
+  'author',
+  'hashtags',
+  'url',
+  'char_count',
+  'word_count',
+  'sentence',
+];
+// Recaps quote an earlier post, so only fields kept in the metrics are available
+const RECAP_PLACEHOLDERS = ['title', 'author', 'hashtags', 'url', 'engagement', 'rank'];
+// Roundups thank a week of submissions; {hashtags} is the language's main tag
+const ROUNDUP_PLACEHOLDERS = ['count', 'people', 'mentions', 'hashtags'];
+
+const DEFAULT_TEMPLATES: Record<Language, Record<TemplateSlot, string>> = {
+  ja: {
+    text: '『{title}』{author}著\n{hashtags}\n{url}',
+    card_title: 'Random Shosha - 書写のお題',
+    card_description: '古典文学の一文を書写のお題として',
+    recap: '今週の反響 第{rank}位のお題\n『{title}』{author}著（反応{engagement}件）\n{hashtags}',
+    roundup: '今週の書写 {count}件（{people}人）ありがとうございました！\n{mentions}\n{hashtags}',
+  },
+  en: {
+    text: '"{title}" by {author}\n{hashtags}\n{url}',
+    card_title: 'Random Shosha - Calligraphy Practice',
+    card_description: 'Classic literature sentence for calligraphy practice',
+    recap:
+      'This week\'s top prompts, No. {rank}\n' +
+      '"{title}" by {author} ({engagement} reactions)\n{hashtags}',
+    roundup:
+      "This week's shosha: {count} submissions from {people} people. Thank you!\n" +
+      '{mentions}\n{hashtags}',
+  },
+};
+
+// Templates are read once per execution; the share text is rendered many times while fitting
+const templateCache: Record<string, string> = {};
+
+/**
+ * Script Properties keys for a template, most specific first
+ * e.g. POST_TEMPLATE_JA_X, POST_TEMPLATE_JA, CARD_TITLE_TEMPLATE_EN
+ */
+function getTemplatePropertyKeys(
+  lang: Language,
+  slot: TemplateSlot,
+  platform?: Platform
+): string[] {
+  const langKey = lang.toUpperCase();
+  if (slot === 'text') {
+    const keys = [`POST_TEMPLATE_${langKey}`];
+    return platform ? [`POST_TEMPLATE_${langKey}_${platform.toUpperCase()}`, ...keys] : keys;
+  }
+  return [`${slot.toUpperCase()}_TEMPLATE_${langKey}`];
+}
+
+/**
+ * Return the problems with a template; an empty list means it is usable
+ */
+function validateTemplate(template: string, lang: Language, slot: TemplateSlot): string[] {
+  const errors: string[] = [];
+  if (!template.trim()) {
+    errors.push('template is empty');
+  }
+
+  const placeholders = (template.match(/\{[^{}]*\}/g) || []).map((match) => match.slice(1, -1));
+  const known =
+    slot === 'recap'
+      ? RECAP_PLACEHOLDERS
+      : slot === 'roundup'
+        ? ROUNDUP_PLACEHOLDERS
+        : TEMPLATE_PLACEHOLDERS;
+  for (const placeholder of placeholders) {
+    if (!known.includes(placeholder)) {
+      errors.push(`unknown placeholder {${placeholder}}`);
+    } else if (
+      (placeholder === 'char_count' && lang !== 'ja') ||
+      (placeholder === 'word_count' && lang !== 'en')
+    ) {
+      errors.push(`{${placeholder}} is not available for ${lang}`);
+    }
+  }
+
+  // The share URL and the per-sentence hashtag are what the post exists for
+  if (slot === 'text') {
+    for (const required of ['url', 'hashtags']) {
+      if (!placeholders.includes(required)) {
+        errors.push(`missing required placeholder {${required}}`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Load a template from Script Properties, falling back to the built-in default
+ * Stored templates may use a literal \n for line breaks
+ */
+function loadTemplate(lang: Language, slot: TemplateSlot, platform?: Platform): string {
+  const cacheKey = `${lang}:${slot}:${platform || ''}`;
+  const cached = templateCache[cacheKey];
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const properties = PropertiesService.getScriptProperties();
+  let template = DEFAULT_TEMPLATES[lang][slot];
+
+  for (const key of getTemplatePropertyKeys(lang, slot, platform)) {
+    const stored = properties.getProperty(key);
+    if (stored === null) {
+      continue;
+    }
+
+    const candidate = stored.replace(/\\n/g, '\n');
+    const errors = validateTemplate(candidate, lang, slot);
+    if (errors.length === 0) {
+      template = candidate;
+      break;
+    }
+    Logger.log(`Invalid template ${key}, ignoring: ${errors.join('; ')}`);
+  }
+
+  templateCache[cacheKey] = template;
+  return template;
+}
+
+function buildTemplateFields(
+  data: SentenceResponse,
+  lang: Language,
+  shareUrl: string
+): Record<string, string> {
+  return {
+    title: data.title,
+    author: data.author,
+    hashtags: generateHashtags(data.book_id, data.sentence_id, lang),
+    url: shareUrl,
+    char_count: 'char_count' in data ? String(data.char_count) : '',
+    word_count: 'word_count' in data ? String(data.word_count) : '',
+    sentence: data.sentence_text,
+  };
+}
+
+function renderTemplate(template: string, fields: Record<string, string>): string {
+  return template.replace(/\{([a-z_]+)\}/g, (match, name: string) => fields[name] ?? match);
+}
+
+function renderCardText(
+  data: SentenceResponse,
+  lang: Language,
+  shareUrl: string
+): { title: string; description: string } {
+  const fields = buildTemplateFields(data, lang, shareUrl);
+  return {
+    title: renderTemplate(loadTemplate(lang, 'card_title'), fields),
+    description: renderTemplate(loadTemplate(lang, 'card_description'), fields),
+  };
+}
+
+/**
+ * Check every configured template and log the result
+ * Run manually from the editor after changing template properties
+ */
+function validatePostTemplates(): void {
+  const properties = PropertiesService.getScriptProperties();
+  const platforms: Platform[] = ['x', 'bluesky', 'mastodon', 'misskey'];
+  const slots: TemplateSlot[] = ['text', 'card_title', 'card_description', 'recap', 'roundup'];
+
+  for (const lang of ['ja', 'en'] as Language[]) {
+    for (const slot of slots) {
+      const keyLists =
+        slot === 'text'
+          ? platforms.map((platform) => getTemplatePropertyKeys(lang, slot, platform))
+          : [getTemplatePropertyKeys(lang, slot)];
+      const keys = Array.from(new Set(([] as string[]).concat(...keyLists)));
+
+      for (const key of keys) {
+        const stored = properties.getProperty(key);
+        if (stored === null) {
+          continue;
+        }
+        const errors = validateTemplate(stored.replace(/\\n/g, '\n'), lang, slot);
+        Logger.log(`${key}: ${errors.length === 0 ? 'OK' : errors.join('; ')}`);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// URL Generation Functions
+// ============================================================================
+
+function generateShareUrl(bookId: string, sentenceId: number, lang: Language): string {
+  const encodedBookId = encodeURIComponent(bookId);
+  if (lang === 'en') {
+    return `https://rmc-8.com/shosha/random_shosha_en/?book_id=${encodedBookId}&sentence_id=${sentenceId}`;
+  }
+  return `https://rmc-8.com/shosha/random_shosha/?book_id=${encodedBookId}&sentence_id=${sentenceId}`;
+}
+
+/**
+ * Per-sentence tag (without '#') that followers use when sharing their copies
+ */
+function getSentenceTag(bookId: string, sentenceId: number): string {
+  return `${bookId.replace(/-/g, '')}_${sentenceId}`;
+}
+
+function getMainHashtag(lang: Language): string {
+  return lang === 'ja' ? '#ランダム書写' : '#random_shosha';
+}
+
+function generateHashtags(bookId: string, sentenceId: number, lang: Language): string {
+  return `${getMainHashtag(lang)} #${getSentenceTag(bookId, sentenceId)}`;
+}
+
+function generateJapaneseShareContent(
+  data: JapaneseSentenceResponse,
+  platform?: Platform
+): ShareContent {
+  return generateShareContent(data, 'ja', platform);
+}
+
+function generateEnglishShareContent(
+  data: EnglishSentenceResponse,
+  platform?: Platform
+): ShareContent {
+  return generateShareContent(data, 'en', platform);
+}
+
+/**
+ * Render the post text from the language/platform template
+ */
+function generateShareContent(
+  data: SentenceResponse,
+  lang: Language,
+  platform?: Platform
+): ShareContent {
+  const shareUrl = generateShareUrl(data.book_id, data.sentence_id, lang);
+  const fields = buildTemplateFields(data, lang, shareUrl);
+  const text = renderTemplate(loadTemplate(lang, 'text', platform), fields);
+  return { text, url: shareUrl, lang };
+}
+
+// ============================================================================
+// X (Twitter) Functions
+// ============================================================================
+
+/**
+ * RFC 3986 percent-encoding required by OAuth 1.0a; encodeURIComponent leaves !'()* as-is
+ */
+function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function generateOAuthSignature(
+  method: string,
+  url: string,
+  params: Record<string, string>,
+  consumerSecret: string,
+  tokenSecret: string
+): string {
+  const sortedParams = Object.keys(params)
+    .sort()
+    .map((key) => `${percentEncode(key)}=${percentEncode(params[key]!)}`)
+    .join('&');
+
+  const signatureBaseString = [
+    method.toUpperCase(),
+    percentEncode(url),
+    percentEncode(sortedParams),
+  ].join('&');
+
+  const signingKey = `${percentEncode(consumerSecret)}&${percentEncode(tokenSecret)}`;
+
+  const signature = Utilities.computeHmacSignature(
+    Utilities.MacAlgorithm.HMAC_SHA_1,
+    signatureBaseString,
+    signingKey
+  );
+
+  return Utilities.base64Encode(signature);
+}
+
+function generateOAuthHeader(
+  method: string,
+  url: string,
+  params: Record<string, string>,
+  credentials: XCredentials
+): string {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const nonce = Utilities.getUuid();
+
+  const oauthParams: Record<string, string> = {
+    oauth_consumer_key: credentials.apiKey,
+    oauth_token: credentials.accessToken,
+    oauth_signature_method: 'HMAC-SHA1',
+    oauth_timestamp: timestamp,
+    oauth_nonce: nonce,
+    oauth_version: '1.0',
+    ...params,
+  };
+
+  const signature = generateOAuthSignature(
+    method,
+    url,
+    oauthParams,
+    credentials.apiSecret,
+    credentials.accessTokenSecret
+  );
+
+  oauthParams.oauth_signature = signature;
+
+  const headerParams = Object.keys(oauthParams)
+    .filter((key) => key.startsWith('oauth_'))
+    .sort()
+    .map((key) => `${percentEncode(key)}="${percentEncode(oauthParams[key]!)}"`)
+    .join(', ');
+
+  return `OAuth ${headerParams}`;
+}
+
+const X_MEDIA_UPLOAD_URL = 'https://api.twitter.com/2/media/upload';
+const X_MEDIA_METADATA_URL = 'https://api.twitter.com/2/media/metadata';
+const X_ALT_TEXT_LIMIT = 1000;
+
+/**
+ * Upload image to X and return its media ID
+ * Multipart bodies are not part of the OAuth 1.0a signature, so no extra params are signed
+ */
+function uploadMediaToX(
+  imageUrl: string,
+  altText: string,
+  credentials: XCredentials
+): string | null {
+  try {
+    const imageBlob = downloadImage(imageUrl);
+    if (!imageBlob) {
+      return null;
+    }
+
+    // Signed per attempt: X rejects a replayed nonce
+    const options = (): GoogleAppsScript.URL_Fetch.URLFetchRequestOptions => ({
+      method: 'post',
+      headers: {
+        Authorization: generateOAuthHeader('POST', X_MEDIA_UPLOAD_URL, {}, credentials),
+      },
+      payload: {
+        media: imageBlob,
+        media_category: 'tweet_image',
+        media_type: imageBlob.getContentType() || 'image/png',
+      },
+    });
+
+    const result = fetchWithRetry('X media upload', X_MEDIA_UPLOAD_URL, options);
+    if (!result.ok) {
+      return null;
+    }
+
+    const data = JSON.parse(result.response.getContentText());
+    const mediaId: string = data.data.id;
+    Logger.log(`X media uploaded: ${mediaId}`);
+
+    if (altText) {
+      setXMediaAltText(mediaId, altText, credentials);
+    }
+    return mediaId;
+  } catch (error) {
+    Logger.log(`X media upload error: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Attach alt text to uploaded media; a failure only loses the alt text
+ */
+function setXMediaAltText(mediaId: string, altText: string, credentials: XCredentials): boolean {
+  const payload = {
+    id: mediaId,
+    metadata: {
+      alt_text: { text: altText.substring(0, X_ALT_TEXT_LIMIT) },
+    },
+  };
+
+  const options = (): GoogleAppsScript.URL_Fetch.URLFetchRequestOptions => ({
+    method: 'post',
+    contentType: 'application/json',
+    headers: {
+      Authorization: generateOAuthHeader('POST', X_MEDIA_METADATA_URL, {}, credentials),
+    },
+    payload: JSON.stringify(payload),
+  });
+
+  const result = fetchWithRetry('X media alt text', X_MEDIA_METADATA_URL, options);
+  return result.ok;
+}
+
+function postToX(
+  text: string,
+  credentials: XCredentials,
+  ogpImageUrl?: string,
+  altText?: string
+): PostOutcome {
+  try {
+    const payload: Record<string, unknown> = { text };
+
+    // Attach OGP image; post text-only if the upload fails
+    if (ogpImageUrl) {
+      const mediaId = uploadMediaToX(ogpImageUrl, altText || '', credentials);
+      if (mediaId) {
+        payload.media = { media_ids: [mediaId] };
+      }
+    }
+
+    return createTweet(payload, credentials, 'X post');
+  } catch (error) {
+    return { success: false, error: toRequestError('X post', error) };
+  }
+}
+
+function createTweet(
+  payload: Record<string, unknown>,
+  credentials: XCredentials,
+  label: string
+): PostOutcome {
+  const url = 'https://api.twitter.com/2/tweets';
+  const method = 'POST';
+
+  try {
+    const payloadString = JSON.stringify(payload);
+    const options = (): GoogleAppsScript.URL_Fetch.URLFetchRequestOptions => ({
+      method: 'post',
+      contentType: 'application/json',
+      headers: {
+        Authorization: generateOAuthHeader(method, url, {}, credentials),
+      },
+      payload: payloadString,
+    });
+
+    const result = fetchWithRetry(label, url, options, false);
+    if (!result.ok) {
+      return { success: false, error: result.error };
+    }
+
+    const responseText = result.response.getContentText();
+    Logger.log(`${label} successful: ${responseText}`);
+    const tweetId: string = JSON.parse(responseText).data.id;
+    return {
+      success: true,
+      post: {
+        id: tweetId,
+        permalink: `https://x.com/i/web/status/${tweetId}`,
+        postedAt: new Date().toISOString(),
+      },
+    };
+  } catch (error) {
+    return { success: false, error: toRequestError(label, error) };
+  }
+}
+
+/**
+ * Reply to a tweet with each chunk in turn, chaining the replies
+ * Returns false as soon as one reply fails
+ */
+function postXThread(root: PostReference, chunks: string[], credentials: XCredentials): boolean {
+  let parent = root;
+
+  for (const [index, chunk] of chunks.entries()) {
+    const outcome = createTweet(
+      { text: chunk, reply: { in_reply_to_tweet_id: parent.id } },
+      credentials,
+      `X thread reply ${index + 1}/${chunks.length}`
+    );
+    if (!outcome.success) {
+      return false;
+    }
+    parent = outcome.post;
+  }
+  return true;
+}
+
+function postXQuote(text: string, quoteTweetId: string, credentials: XCredentials): PostOutcome {
+  return createTweet({ text, quote_tweet_id: quoteTweetId }, credentials, 'X quote');
+}
+
+// ============================================================================
+// Bluesky Functions
+// ============================================================================
+
+const BLUESKY_API_BASE = 'https://bsky.social/xrpc';
+// Lexicon maxSize for both app.bsky.embed.images and external card thumbnails
+const BLUESKY_MAX_BLOB_BYTES = 1000000;
+const BLUESKY_ALT_TEXT_LIMIT = 2000;
+
+// Refresh a little early so the token does not expire mid-run
+const BLUESKY_TOKEN_EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+const BLUESKY_SESSION_KEY_PREFIX = 'BSKY_SESSION_';
+
+function createBlueskySession(credentials: BlueskyCredentials): BlueskySession | RequestError {
+  const url = `${BLUESKY_API_BASE}/com.atproto.server.createSession`;
+
+  try {
+    const payload = {
+      identifier: credentials.identifier,
+      password: credentials.password,
+    };
+
+    const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
+      method: 'post',
+      contentType: 'application/json',
+      payload: JSON.stringify(payload),
+    };
+
+    const result = fetchWithRetry('Bluesky session creation', url, options);
+    if (!result.ok) {
+      return result.error;
+    }
+
+    const data = JSON.parse(result.response.getContentText());
+    Logger.log('Bluesky session created successfully');
+    return { accessJwt: data.accessJwt, refreshJwt: data.refreshJwt, did: data.did };
+  } catch (error) {
+    return toRequestError('Bluesky session creation', error);
+  }
+}
+
+function refreshBlueskySession(session: BlueskySession): BlueskySession | RequestError {
+  const url = `${BLUESKY_API_BASE}/com.atproto.server.refreshSession`;
+
+  try {
+    const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
+      method: 'post',
+      headers: {
+        Authorization: `Bearer ${session.refreshJwt}`,
+      },
+    };
+
+    const result = fetchWithRetry('Bluesky session refresh', url, options);
+    if (!result.ok) {
+      return result.error;
+    }
+
+    const data = JSON.parse(result.response.getContentText());
+    Logger.log('Bluesky session refreshed successfully');
+    return { accessJwt: data.accessJwt, refreshJwt: data.refreshJwt, did: data.did };
+  } catch (error) {
+    return toRequestError('Bluesky session refresh', error);
+  }
+}
+
+/**
+ * True when the JWT's exp claim is missing, unreadable or within the margin
+ */
+function isJwtExpired(jwt: string, now: number = Date.now()): boolean {
+  try {
+    const payloadPart = jwt.split('.')[1] || '';
+    const padded = payloadPart + '='.repeat((4 - (payloadPart.length % 4)) % 4);
+    const payload = JSON.parse(
+      Utilities.newBlob(Utilities.base64DecodeWebSafe(padded)).getDataAsString()
+    );
+    if (typeof payload.exp !== 'number') {
+      return true;
+    }
+    return payload.exp * 1000 - BLUESKY_TOKEN_EXPIRY_MARGIN_MS <= now;
+  } catch (error) {
+    return true;
+  }
+}
+
+/**
+ * Sessions are kept in User Properties, readable only by the account that runs the triggers
+ */
+function getBlueskySessionKey(credentials: BlueskyCredentials): string {
+  return `${BLUESKY_SESSION_KEY_PREFIX}${credentials.identifier}`;
+}
+
+function loadCachedBlueskySession(credentials: BlueskyCredentials): BlueskySession | null {
+  const stored = PropertiesService.getUserProperties().getProperty(
+    getBlueskySessionKey(credentials)
+  );
+  if (!stored) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(stored) as BlueskySession;
+  } catch (error) {
+    return null;
+  }
+}
+
+function saveBlueskySession(credentials: BlueskyCredentials, session: BlueskySession): void {
+  PropertiesService.getUserProperties().setProperty(
+    getBlueskySessionKey(credentials),
+    JSON.stringify(session)
+  );
+}
+
+function clearBlueskySession(credentials: BlueskyCredentials): void {
+  PropertiesService.getUserProperties().deleteProperty(getBlueskySessionKey(credentials));
+}
+
+/**
+ * Replace a session whose access token the server rejected: refresh, then log in again
+ */
+function isBlueskyTokenRejected(error: RequestError): boolean {
+  return error.kind === 'auth' || error.responseText.includes('ExpiredToken');
+}
+
+function renewBlueskySession(
+  session: BlueskySession,
+  credentials: BlueskyCredentials
+): BlueskySession | RequestError {
+  clearBlueskySession(credentials);
+  let renewed = refreshBlueskySession(session);
+  if (renewed instanceof RequestError) {
+    Logger.log('Bluesky session refresh failed, logging in again');
+    renewed = createBlueskySession(credentials);
+  }
+  if (!(renewed instanceof RequestError)) {
+    saveBlueskySession(credentials, renewed);
+  }
+  return renewed;
+}
+
+/**
+ * Return a usable session: cached if still valid, refreshed if the access token
+ * expired, and a fresh login only when refreshing fails
+ */
+function getBlueskySession(credentials: BlueskyCredentials): BlueskySession | RequestError {
+  const cached = loadCachedBlueskySession(credentials);
+
+  if (cached && !isJwtExpired(cached.accessJwt)) {
+    Logger.log('Using cached Bluesky session');
+    return cached;
+  }
+
+  if (cached && !isJwtExpired(cached.refreshJwt)) {
+    const refreshed = refreshBlueskySession(cached);
+    if (!(refreshed instanceof RequestError)) {
+      saveBlueskySession(credentials, refreshed);
+      return refreshed;
+    }
+    Logger.log('Bluesky session refresh failed, logging in again');
+  }
+
+  const session = createBlueskySession(credentials);
+  if (session instanceof RequestError) {
+    clearBlueskySession(credentials);
+    return session;
+  }
+
+  saveBlueskySession(credentials, session);
+  return session;
+}
+
+/**
+ * Generate OGP image URL directly from sentence data
+ */
+function generateOGPImageUrl(
+  sentenceText: string,
+  title: string,
+  author: string,
+  lang: Language
+): string {
+  const params = [
+    `sentence=${encodeURIComponent(sentenceText)}`,
+    `title=${encodeURIComponent(title)}`,
+    `author=${encodeURIComponent(author)}`,
+    `lang=${encodeURIComponent(lang)}`
+  ].join('&');
+
+  const ogpUrl = `https://rmc-8.com/api/og-shosha?${params}`;
+  Logger.log(`Generated OGP image URL: ${ogpUrl}`);
+  return ogpUrl;
+}
+
+/**
+ * Upload an image blob to Bluesky
+ * Blobs over the lexicon size limit are refused locally, since createRecord would reject them
+ */
+function uploadBlobToBluesky(
+  imageBlob: GoogleAppsScript.Base.Blob,
+  session: BlueskySession,
+  credentials: BlueskyCredentials,
+  renewOnAuthError: boolean = true
+): BlueskyOutcome<{ blob: any | null }> {
+  try {
+    const bytes = imageBlob.getBytes();
+    if (bytes.length > BLUESKY_MAX_BLOB_BYTES) {
+      Logger.log(`Blob too large for Bluesky: ${bytes.length} > ${BLUESKY_MAX_BLOB_BYTES} bytes`);
+      return { blob: null, session };
+    }
+    const mimeType = imageBlob.getContentType() || 'image/jpeg';
+
+    // Upload to Bluesky
+    const uploadUrl = `${BLUESKY_API_BASE}/com.atproto.repo.uploadBlob`;
+
+    const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
+      method: 'post',
+      headers: {
+        'Content-Type': mimeType,
+        Authorization: `Bearer ${session.accessJwt}`,
+      },
+      payload: bytes,
+    };
+
+    const result = fetchWithRetry('Blob upload', uploadUrl, options);
+    if (!result.ok) {
+      if (isBlueskyTokenRejected(result.error) && renewOnAuthError) {
+        Logger.log('Blob upload: access token rejected, renewing the session');
+        const renewed = renewBlueskySession(session, credentials);
+        if (!(renewed instanceof RequestError)) {
+          return uploadBlobToBluesky(imageBlob, renewed, credentials, false);
+        }
+      }
+      return { blob: null, session };
+    }
+
+    const data = JSON.parse(result.response.getContentText());
+    Logger.log(`Blob uploaded successfully: ${JSON.stringify(data.blob)}`);
+    return { blob: data.blob, session };
+  } catch (error) {
+    Logger.log(`Blob upload error: ${error}`);
+    return { blob: null, session };
+  }
+}
+
+/**
+ * Read width and height from a PNG IHDR chunk or a JPEG SOF marker
+ * GAS byte arrays are signed, so every byte is masked before use
+ */
+function getImageDimensions(bytes: number[]): ImageDimensions | null {
+  const at = (index: number): number => (bytes[index] ?? 0) & 0xff;
+  const uint16 = (index: number): number => (at(index) << 8) | at(index + 1);
+
+  if (at(0) === 0x89 && at(1) === 0x50 && at(2) === 0x4e && at(3) === 0x47) {
+    return { width: uint16(16) * 65536 + uint16(18), height: uint16(20) * 65536 + uint16(22) };
+  }
+
+  if (at(0) === 0xff && at(1) === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (at(offset) !== 0xff) {
+        return null;
+      }
+      const marker = at(offset + 1);
+      // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { width: uint16(offset + 7), height: uint16(offset + 5) };
+      }
+      offset += 2 + uint16(offset + 2);
+    }
+  }
+  return null;
+}
+
+/**
+ * Embed mode from Script Properties
+ * BLUESKY_EMBED_MODE: 'images' for the full-size OGP image, otherwise the link card
+ */
+function getBlueskyEmbedMode(): BlueskyEmbedMode {
+  const mode = PropertiesService.getScriptProperties().getProperty('BLUESKY_EMBED_MODE');
+  return mode === 'images' ? 'images' : 'external';
+}
+
+function buildBlueskyImagesEmbed(
+  image: any,
+  altText: string,
+  dimensions: ImageDimensions | null
+): any {
+  return {
+    $type: 'app.bsky.embed.images',
+    images: [
+      {
+        image,
+        alt: altText.substring(0, BLUESKY_ALT_TEXT_LIMIT),
+        ...(dimensions && { aspectRatio: dimensions }),
+      },
+    ],
+  };
+}
+
+// Tag characters as explicit ranges rather than \p{...} escapes, for GAS compatibility
+// ASCII and full-width alphanumerics, Latin letters, Hiragana, Katakana (incl. half-width),
+// 々〆〇〻, CJK Unified Ideographs with Extensions A-G and compatibility ideographs
+const HASHTAG_CHARS =
+  'a-zA-Z0-9_\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u024F' +
+  '\\u3005-\\u3007\\u303B\\u3041-\\u3096\\u3099-\\u309F\\u30A1-\\u30FA\\u30FC-\\u30FF' +
+  '\\u31F0-\\u31FF\\u3400-\\u4DBF\\u4E00-\\u9FFF\\uF900-\\uFAFF' +
+  '\\uFF10-\\uFF19\\uFF21-\\uFF3A\\uFF3F\\uFF41-\\uFF5A\\uFF66-\\uFF9F' +
+  '\\u{20000}-\\u{2FA1F}\\u{30000}-\\u{323AF}';
+const HASHTAG_REGEX = new RegExp(`(^|[^${HASHTAG_CHARS}&])([#\\uFF03])([${HASHTAG_CHARS}]+)`, 'gu');
+// URLs end at whitespace or the first non-ASCII character (Japanese text often follows directly)
+const URL_REGEX = /https?:\/\/[\x21-\x7E]+/g;
+const URL_TRAILING_PUNCTUATION = /[.,;:!?'"*]+$/;
+const MENTION_REGEX = /(^|[\s(])@([a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?(?:\.[a-zA-Z0-9-]+)+)/g;
+
+// Handles resolved in this execution; null marks a handle that does not exist
+const resolvedBlueskyHandles: Record<string, string | null> = {};
+
+/**
+ * Resolve @handle to a DID; returns null if the handle cannot be resolved
+ */
+function resolveBlueskyHandle(handle: string): string | null {
+  const cached = resolvedBlueskyHandles[handle];
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const url =
+    `${BLUESKY_API_BASE}/com.atproto.identity.resolveHandle` +
+    `?handle=${encodeURIComponent(handle)}`;
+  const result = fetchWithRetry(`Resolve handle ${handle}`, url);
+  let did: string | null = null;
+  if (result.ok) {
+    try {
+      did = JSON.parse(result.response.getContentText()).did || null;
+    } catch (error) {
+      Logger.log(`Resolve handle ${handle} parse error: ${error}`);
+    }
+  }
+
+  resolvedBlueskyHandles[handle] = did;
+  return did;
+}
+
+/**
+ * UTF-8 byte offset of every UTF-16 index in the text (one pass, no Blob per match)
+ */
+function getUtf8ByteOffsets(text: string): number[] {
+  const offsets: number[] = [0];
+  let bytes = 0;
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    if (code < 0x80) {
+      bytes += 1;
+    } else if (code < 0x800) {
+      bytes += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff) {
+      // High surrogate: the pair is 4 bytes, counted here and 0 for the low half
+      bytes += 4;
+    } else if (code >= 0xdc00 && code <= 0xdfff) {
+      bytes += 0;
+    } else {
+      bytes += 3;
+    }
+    offsets.push(bytes);
+  }
+  return offsets;
+}
+
+/**
+ * Drop trailing punctuation and any ')' that has no matching '(' inside the URL
+ */
+function trimUrl(url: string): string {
+  let trimmed = url;
+  for (;;) {
+    const before = trimmed;
+    trimmed = trimmed.replace(URL_TRAILING_PUNCTUATION, '');
+    if (trimmed.endsWith(')')) {
+      const opens = trimmed.split('(').length - 1;
+      const closes = trimmed.split(')').length - 1;
+      if (closes > opens) {
+        trimmed = trimmed.slice(0, -1);
+      }
+    }
+    if (trimmed === before) {
+      return trimmed;
+    }
+  }
+}
+
+/**
+ * Detect links, @mentions and hashtags as Bluesky richtext facets
+ * Earlier kinds win when spans overlap (a '#' inside a URL stays part of the link)
+ */
+function extractFacets(text: string): BlueskyFacet[] {
+  const offsets = getUtf8ByteOffsets(text);
+  const facets: BlueskyFacet[] = [];
+
+  const addFacet = (start: number, end: number, feature: any): void => {
+    const byteStart = offsets[start]!;
+    const byteEnd = offsets[end]!;
+    const overlaps = facets.some(
+      (facet) => byteStart < facet.index.byteEnd && facet.index.byteStart < byteEnd
+    );
+    if (!overlaps) {
+      facets.push({ index: { byteStart, byteEnd }, features: [feature] });
+    }
+  };
+
+  let match: RegExpExecArray | null;
+
+  URL_REGEX.lastIndex = 0;
+  while ((match = URL_REGEX.exec(text)) !== null) {
+    const url = trimUrl(match[0]);
+    if (url.length > 'https://'.length) {
+      addFacet(match.index, match.index + url.length, {
+        $type: 'app.bsky.richtext.facet#link',
+        uri: url,
+      });
+    }
+  }
+
+  MENTION_REGEX.lastIndex = 0;
+  while ((match = MENTION_REGEX.exec(text)) !== null) {
+    const handle = match[2]!.replace(/\.+$/, '');
+    const start = match.index + match[1]!.length;
+    const did = resolveBlueskyHandle(handle.toLowerCase());
+    if (did) {
+      addFacet(start, start + 1 + handle.length, {
+        $type: 'app.bsky.richtext.facet#mention',
+        did,
+      });
+    }
+  }
+
+  HASHTAG_REGEX.lastIndex = 0;
+  while ((match = HASHTAG_REGEX.exec(text)) !== null) {
+    const tag = match[3]!;
+    // Bluesky ignores all-digit tags such as "#1"
+    if (/^[0-9\uFF10-\uFF19]+$/.test(tag)) {
+      continue;
+    }
+    const start = match.index + match[1]!.length;
+    addFacet(start, start + match[2]!.length + tag.length, {
+      $type: 'app.bsky.richtext.facet#tag',
+      tag,
+    });
+  }
+
+  return facets.sort((a, b) => a.index.byteStart - b.index.byteStart);
+}
+
+function buildBlueskyPostRecord(
+  text: string,
+  shareUrl?: string,
+  ogpTitle?: string,
+  ogpDescription?: string,
+  thumb?: any
+): any {
+  const now = new Date().toISOString();
+  const facets = extractFacets(text);
+
+  const record: any = {
+    $type: 'app.bsky.feed.post',
+    text: text,
+    createdAt: now,
+    ...(facets.length > 0 && { facets }),
+  };
+
+  if (shareUrl) {
+    const externalData: any = {
+      uri: shareUrl,
+      title: ogpTitle || 'Random Shosha - 書写のお題',
+      description: ogpDescription || '古典文学の一文を書写のお題として',
+    };
+
+    if (thumb) {
+      externalData.thumb = thumb;
+    }
+
+    record.embed = {
+      $type: 'app.bsky.embed.external',
+      external: externalData,
+    };
+    Logger.log(`Adding OGP card - URL: ${shareUrl}, Title: ${ogpTitle}`);
+  }
+
+  return record;
+}
+
+/**
+ * Check that every facet's byte range lies inside the text and links match their span
+ */
+function validateBlueskyFacets(record: any): string[] {
+  const errors: string[] = [];
+  const bytes = Utilities.newBlob(record.text).getBytes();
+
+  for (const facet of record.facets || []) {
+    const { byteStart, byteEnd } = facet.index;
+    if (byteStart < 0 || byteEnd > bytes.length || byteStart >= byteEnd) {
+      errors.push(`facet range ${byteStart}-${byteEnd} outside text (${bytes.length} bytes)`);
+      continue;
+    }
+
+    const span = Utilities.newBlob(bytes.slice(byteStart, byteEnd)).getDataAsString();
+    for (const feature of facet.features) {
+      if (feature.$type === 'app.bsky.richtext.facet#link' && feature.uri !== span) {
+        errors.push(`link facet ${feature.uri} does not match text "${span}"`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Post with either a link card or the OGP image itself
+ * Images mode falls back to the link card when the image is oversized or fails to upload;
+ * the share URL stays clickable through its link facet either way
+ */
+function postToBluesky(
+  text: string,
+  credentials: BlueskyCredentials,
+  shareUrl?: string,
+  ogpTitle?: string,
+  ogpDescription?: string,
+  ogpImageUrl?: string,
+  altText?: string,
+  embedMode: BlueskyEmbedMode = 'external'
+): PostOutcome {
+  let session = getBlueskySession(credentials);
+
+  if (session instanceof RequestError) {
+    Logger.log('Bluesky authentication failed');
+    return { success: false, error: session };
+  }
+
+  try {
+    const imageBlob = ogpImageUrl ? downloadImage(ogpImageUrl) : null;
+
+    let record: any = null;
+    if (imageBlob && embedMode === 'images') {
+      const upload = uploadBlobToBluesky(imageBlob, session, credentials);
+      const image = upload.blob;
+      session = upload.session;
+      if (image) {
+        record = buildBlueskyPostRecord(text);
+        record.embed = buildBlueskyImagesEmbed(
+          image,
+          altText || '',
+          getImageDimensions(imageBlob.getBytes())
+        );
+        Logger.log('OGP image embedded at full size');
+      } else {
+        Logger.log('Image embed unavailable, falling back to the link card');
+      }
+    }
+
+    if (!record) {
+      // Upload OGP image as thumbnail
+      let thumb: any = null;
+      if (shareUrl && imageBlob) {
+        const upload = uploadBlobToBluesky(imageBlob, session, credentials);
+        thumb = upload.blob;
+        session = upload.session;
+        if (thumb) {
+          Logger.log('OGP thumbnail uploaded successfully');
+        }
+      }
+      record = buildBlueskyPostRecord(text, shareUrl, ogpTitle, ogpDescription, thumb);
+    }
+
+    Logger.log(`Bluesky post record: ${JSON.stringify(record)}`);
+
+    return createBlueskyRecord(record, session, credentials, 'Bluesky post');
+  } catch (error) {
+    return { success: false, error: toRequestError('Bluesky post', error) };
+  }
+}
+
+/**
+ * at://did/app.bsky.feed.post/rkey -> https://bsky.app/profile/did/post/rkey
+ */
+function getBlueskyPermalink(atUri: string): string {
+  const [did, , rkey] = atUri.replace('at://', '').split('/');
+  return `https://bsky.app/profile/${did}/post/${rkey}`;
+}
+
+/**
+ * Create a record in the session's repo
+ * A rejected access token is renewed once and the record retried within the same run
+ */
+function createBlueskyRecord(
+  record: any,
+  session: BlueskySession,
+  credentials: BlueskyCredentials,
+  label: string,
+  renewOnAuthError: boolean = true
+): BlueskyOutcome<PostOutcome> {
+  const url = `${BLUESKY_API_BASE}/com.atproto.repo.createRecord`;
+
+  try {
+    const payload = {
+      repo: session.did,
+      // Posts, likes and reposts are all stored under their record type
+      collection: record.$type,
+      record: record,
+    };
+
+    const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
+      method: 'post',
+      contentType: 'application/json',
+      headers: {
+        Authorization: `Bearer ${session.accessJwt}`,
+      },
+      payload: JSON.stringify(payload),
+    };
+
+    const result = fetchWithRetry(label, url, options, false);
+    if (!result.ok) {
+      const tokenRejected = isBlueskyTokenRejected(result.error);
+      if (tokenRejected && renewOnAuthError) {
+        Logger.log(`${label}: access token rejected, renewing the session`);
+        const renewed = renewBlueskySession(session, credentials);
+        if (!(renewed instanceof RequestError)) {
+          return createBlueskyRecord(record, renewed, credentials, label, false);
+        }
+      } else if (tokenRejected) {
+        // Drop the cached session so the next run logs in again
+        clearBlueskySession(credentials);
+      }
+      return { success: false, error: result.error, session };
+    }
+
+    const responseText = result.response.getContentText();
+    Logger.log(`${label} successful: ${responseText}`);
+    const data = JSON.parse(responseText);
+    return {
+      success: true,
+      post: {
+        id: data.uri,
+        cid: data.cid,
+        permalink: getBlueskyPermalink(data.uri),
+        postedAt: record.createdAt,
+      },
+      session,
+    };
+  } catch (error) {
+    return { success: false, error: toRequestError(label, error), session };
+  }
+}
+
+/**
+ * Reply to a Bluesky post with each chunk in turn
+ * Every reply keeps the original post as root and the previous reply as parent
+ */
+function postBlueskyThread(
+  root: PostReference,
+  chunks: string[],
+  credentials: BlueskyCredentials
+): boolean {
+  let session = getBlueskySession(credentials);
+  if (session instanceof RequestError) {
+    return false;
+  }
+
+  const rootRef = { uri: root.id, cid: root.cid };
+  let parentRef = rootRef;
+
+  for (const [index, chunk] of chunks.entries()) {
+    const facets = extractFacets(chunk);
+    const record: any = {
+      $type: 'app.bsky.feed.post',
+      text: chunk,
+      createdAt: new Date().toISOString(),
+      reply: { root: rootRef, parent: parentRef },
+      ...(facets.length > 0 && { facets }),
+    };
+
+    const outcome = createBlueskyRecord(
+      record,
+      session,
+      credentials,
+      `Bluesky thread reply ${index + 1}/${chunks.length}`
+    );
+    if (!outcome.success) {
+      return false;
+    }
+    // A reply that renewed the session hands the new token to the next one
+    session = outcome.session;
+    parentRef = { uri: outcome.post.id, cid: outcome.post.cid };
+  }
+  return true;
+}
+
+/**
+ * Post text with a record embed that quotes an existing post
+ */
+function postBlueskyQuote(
+  text: string,
+  quoted: { uri: string; cid: string },
+  credentials: BlueskyCredentials
+): PostOutcome {
+  const session = getBlueskySession(credentials);
+  if (session instanceof RequestError) {
+    return { success: false, error: session };
+  }
+
+  const record = buildBlueskyPostRecord(text);
+  record.embed = { $type: 'app.bsky.embed.record', record: quoted };
+  return createBlueskyRecord(record, session, credentials, 'Bluesky quote');
+}
+
+// ============================================================================
+// Mastodon Functions
+// ============================================================================
+
+const MASTODON_ALT_TEXT_LIMIT = 1500;
+const MASTODON_MEDIA_POLL_ATTEMPTS = 5;
+
+function getMastodonApiBase(credentials: MastodonCredentials): string {
+  return credentials.instanceUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Upload image to Mastodon and return its media ID
+ * Waits for asynchronous processing (202) so the ID can be attached right away
+ */
+function uploadMediaToMastodon(
+  imageUrl: string,
+  altText: string,
+  credentials: MastodonCredentials
+): string | null {
+  const apiBase = getMastodonApiBase(credentials);
+
+  try {
+    const imageBlob = downloadImage(imageUrl);
+    if (!imageBlob) {
+      return null;
+    }
+
+    const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
+      method: 'post',
+      headers: {
+        Authorization: `Bearer ${credentials.accessToken}`,
+      },
+      payload: {
+        file: imageBlob,
+        description: altText.substring(0, MASTODON_ALT_TEXT_LIMIT),
+      },
+    };
+
+    const result = fetchWithRetry('Mastodon media upload', `${apiBase}/api/v2/media`, options);
+    if (!result.ok) {
+      return null;
+    }
+
+    const media = JSON.parse(result.response.getContentText());
+    Logger.log(`Mastodon media uploaded: ${media.id}`);
+
+    if (result.response.getResponseCode() === 202) {
+      return waitForMastodonMedia(media.id, credentials);
+    }
+    return media.id;
+  } catch (error) {
+    Logger.log(`Mastodon media upload error: ${error}`);
+    return null;
+  }
+}
+
+function waitForMastodonMedia(mediaId: string, credentials: MastodonCredentials): string | null {
+  const url = `${getMastodonApiBase(credentials)}/api/v1/media/${encodeURIComponent(mediaId)}`;
+
+  for (let attempt = 0; attempt < MASTODON_MEDIA_POLL_ATTEMPTS; attempt++) {
+    Utilities.sleep(1000);
+    const result = fetchWithRetry('Mastodon media status', url, {
+      headers: { Authorization: `Bearer ${credentials.accessToken}` },
+    });
+    if (!result.ok) {
+      return null;
+    }
+    // 206 Partial Content means the media is still being processed
+    if (result.response.getResponseCode() === 200) {
+      Logger.log(`Mastodon media processed: ${mediaId}`);
+      return mediaId;
+    }
+  }
+
+  Logger.log(`Mastodon media still processing after ${MASTODON_MEDIA_POLL_ATTEMPTS} checks`);
+  return null;
+}
+
+function buildMastodonStatusPayload(text: string, lang: Language): Record<string, unknown> {
+  return {
+    status: text,
+    language: lang,
+    visibility: 'public',
+  };
+}
+
+function postToMastodon(
+  text: string,
+  credentials: MastodonCredentials,
+  lang: Language,
+  ogpImageUrl?: string,
+  altText?: string
+): PostOutcome {
+  const url = `${getMastodonApiBase(credentials)}/api/v1/statuses`;
+
+  try {
+    const payload = buildMastodonStatusPayload(text, lang);
+
+    // Attach OGP image; post text-only if the upload fails
+    if (ogpImageUrl) {
+      const mediaId = uploadMediaToMastodon(ogpImageUrl, altText || '', credentials);
+      if (mediaId) {
+        payload.media_ids = [mediaId];
+      }
+    }
+
+    const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
+      method: 'post',
+      contentType: 'application/json',
+      headers: {
+        Authorization: `Bearer ${credentials.accessToken}`,
+        // Same key on every retry so Mastodon never creates a duplicate status
+        'Idempotency-Key': Utilities.getUuid(),
+      },
+      payload: JSON.stringify(payload),
+    };
+
+    const result = fetchWithRetry('Mastodon post', url, options);
+    if (!result.ok) {
+      return { success: false, error: result.error };
+    }
+
+    const responseText = result.response.getContentText();
+    Logger.log(`Mastodon post successful: ${responseText}`);
+    const status = JSON.parse(responseText);
+    return {
+      success: true,
+      post: { id: status.id, permalink: status.url, postedAt: status.created_at },
+    };
+  } catch (error) {
+    return { success: false, error: toRequestError('Mastodon post', error) };
+  }
+}
+
+// ============================================================================
+// Misskey Functions
+// ============================================================================
+
+const MISSKEY_FILE_COMMENT_LIMIT = 512;
+
+function getMisskeyApiBase(credentials: MisskeyCredentials): string {
+  return `${credentials.instanceUrl.replace(/\/+$/, '')}/api`;
+}
+
+/**
+ * Upload image to Misskey Drive and return its file ID
+ */
+function uploadFileToMisskeyDrive(
+  imageUrl: string,
+  altText: string,
+  credentials: MisskeyCredentials
+): string | null {
+  try {
+    const imageBlob = downloadImage(imageUrl);
+    if (!imageBlob) {
+      return null;
+    }
+    const mimeType = imageBlob.getContentType() || 'image/png';
+    const extension = mimeType.split('/')[1] || 'png';
+
+    const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
+      method: 'post',
+      payload: {
+        i: credentials.accessToken,
+        file: imageBlob.setName(`random-shosha.${extension}`),
+        comment: altText.substring(0, MISSKEY_FILE_COMMENT_LIMIT),
+        isSensitive: 'false',
+      },
+    };
+
+    const result = fetchWithRetry(
+      'Misskey Drive upload',
+      `${getMisskeyApiBase(credentials)}/drive/files/create`,
+      options
+    );
+    if (!result.ok) {
+      return null;
+    }
+
+    const file = JSON.parse(result.response.getContentText());
+    Logger.log(`Misskey Drive file uploaded: ${file.id}`);
+    return file.id;
+  } catch (error) {
+    Logger.log(`Misskey Drive upload error: ${error}`);
+    return null;
+  }
+}
+
+function buildMisskeyNotePayload(text: string): Record<string, unknown> {
+  // Text is sent verbatim so the hashtags from generateHashtags stay intact
+  return {
+    text,
+    visibility: 'public',
+  };
+}
+
+function postToMisskey(
+  text: string,
+  credentials: MisskeyCredentials,
+  ogpImageUrl?: string,
+  altText?: string
+): PostOutcome {
+  const url = `${getMisskeyApiBase(credentials)}/notes/create`;
+
+  try {
+    const payload: Record<string, unknown> = {
+      i: credentials.accessToken,
+      ...buildMisskeyNotePayload(text),
+    };
+
+    // Attach OGP image; post text-only if the upload fails
+    if (ogpImageUrl) {
+      const fileId = uploadFileToMisskeyDrive(ogpImageUrl, altText || '', credentials);
+      if (fileId) {
+        payload.fileIds = [fileId];
+      }
+    }
+
+    const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
+      method: 'post',
+      contentType: 'application/json',
+      payload: JSON.stringify(payload),
+    };
+
+    const result = fetchWithRetry('Misskey post', url, options, false);
+    if (!result.ok) {
+      return { success: false, error: result.error };
+    }
+
+    const responseText = result.response.getContentText();
+    Logger.log(`Misskey post successful: ${responseText}`);
+    const note = JSON.parse(responseText).createdNote;
+    return {
+      success: true,
+      post: {
+        id: note.id,
+        permalink: `${credentials.instanceUrl.replace(/\/+$/, '')}/notes/${note.id}`,
+        postedAt: note.createdAt,
+      },
+    };
+  } catch (error) {
+    return { success: false, error: toRequestError('Misskey post', error) };
+  }
+}
+
+// ============================================================================
+// Credentials Functions
+// ============================================================================
+
+const ACCOUNT_REGISTRY_KEY = 'ACCOUNT_REGISTRY';
+
+const CREDENTIAL_FIELDS: Record<Platform, string[]> = {
+  x: ['apiKey', 'apiSecret', 'accessToken', 'accessTokenSecret'],
+  bluesky: ['identifier', 'password'],
+  mastodon: ['instanceUrl', 'accessToken'],
+  misskey: ['instanceUrl', 'accessToken'],
+};
+
+/**
+ * Accounts used when ACCOUNT_REGISTRY is not set
+ */
+const DEFAULT_ACCOUNTS: AccountConfig[] = [
+  {
+    name: 'X',
+    platform: 'x',
+    languages: ['ja'],
+    enabled: true,
+    credentials: {
+      apiKey: 'X_RND_SHOSHA_API_KEY',
+      apiSecret: 'X_RND_SHOSHA_API_KEY_SECRET',
+      accessToken: 'X_RND_SHOSHA_ACCESS_TOKEN',
+      accessTokenSecret: 'X_RND_SHOSHA_ACCESS_TOKEN_SECRET',
+    },
+  },
+  {
+    name: 'X',
+    platform: 'x',
+    languages: ['en'],
+    enabled: true,
+    credentials: {
+      apiKey: 'X_RND_SHOSHA_EN_API_KEY',
+      apiSecret: 'X_RND_SHOSHA_EN_API_KEY_SECRET',
+      accessToken: 'X_RND_SHOSHA_EN_ACCESS_TOKEN',
+      accessTokenSecret: 'X_RND_SHOSHA_EN_ACCESS_TOKEN_SECRET',
+    },
+  },
+  {
+    name: 'Bluesky',
+    platform: 'bluesky',
+    languages: ['ja', 'en'],
+    enabled: true,
+    credentials: {
+      identifier: 'BSKY_HANDLE',
+      password: 'BSKY_RND_SHOSHA_APP_PASS',
+    },
+  },
+  {
+    name: 'Mastodon',
+    platform: 'mastodon',
+    languages: ['ja', 'en'],
+    enabled: true,
+    credentials: {
+      instanceUrl: 'MASTODON_INSTANCE_URL',
+      accessToken: 'MASTODON_ACCESS_TOKEN',
+    },
+  },
+  {
+    name: 'Misskey',
+    platform: 'misskey',
+    languages: ['ja'],
+    enabled: true,
+    credentials: {
+      instanceUrl: 'MISSKEY_INSTANCE_URL',
+      accessToken: 'MISSKEY_ACCESS_TOKEN',
+    },
+  },
+];
+
+/**
+ * Return the problems with a registry entry; an empty list means it is usable
+ */
+function validateAccountConfig(entry: unknown): string[] {
+  const errors: string[] = [];
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return ['entry is not an object'];
+  }
+  const { name, platform, languages, enabled, credentials } = entry as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name) {
+    errors.push('name is required');
+  }
+  const isPlatform =
+    typeof platform === 'string' &&
+    Object.prototype.hasOwnProperty.call(CREDENTIAL_FIELDS, platform);
+  if (!isPlatform) {
+    errors.push(`unknown platform ${platform}`);
+  }
+  if (
+    !Array.isArray(languages) ||
+    languages.length === 0 ||
+    !languages.every((lang: unknown) => lang === 'ja' || lang === 'en')
+  ) {
+    errors.push('languages must be a non-empty list of "ja"/"en"');
+  }
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    errors.push('enabled must be true or false');
+  }
+
+  const fields = isPlatform ? CREDENTIAL_FIELDS[platform as Platform] : [];
+  const keys: Record<string, unknown> =
+    credentials && typeof credentials === 'object' ? { ...credentials } : {};
+  for (const field of fields) {
+    const key = keys[field];
+    if (typeof key !== 'string' || !key) {
+      errors.push(`credentials.${field} must name a Script Properties key`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Load the account registry from ACCOUNT_REGISTRY (a JSON array of AccountConfig)
+ * Invalid entries are logged and skipped, as is a name already used for one of the
+ * entry's languages: runs, metrics and recaps key accounts by name.
+ * An unreadable registry aborts the run rather than silently posting to the default accounts
+ */
+function loadAccountRegistry(): AccountConfig[] {
+  const stored = PropertiesService.getScriptProperties().getProperty(ACCOUNT_REGISTRY_KEY);
+  if (!stored) {
+    return DEFAULT_ACCOUNTS;
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(stored);
+  } catch (error) {
+    throw new Error(`${ACCOUNT_REGISTRY_KEY} is not valid JSON: ${error}`);
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error(`${ACCOUNT_REGISTRY_KEY} must be a JSON array`);
+  }
+
+  const accounts: AccountConfig[] = [];
+  entries.forEach((entry, index) => {
+    const errors = validateAccountConfig(entry);
+    if (errors.length > 0) {
+      Logger.log(`Skipping account #${index}: ${errors.join('; ')}`);
+      return;
+    }
+
+    const account: AccountConfig = {
+      name: entry.name,
+      platform: entry.platform,
+      languages: entry.languages,
+      enabled: entry.enabled !== false,
+      credentials: entry.credentials,
+    };
+    const duplicate = accounts.find(
+      (other) =>
+        other.name === account.name &&
+        other.languages.some((lang) => account.languages.includes(lang))
+    );
+    if (duplicate) {
+      Logger.log(`Skipping account #${index}: name ${account.name} is already used`);
+      return;
+    }
+    accounts.push(account);
+  });
+  return accounts;
+}
+
+/**
+ * Credential values keyed by field, read from the Script Properties the account names
+ */
+function loadAccountCredentials(account: AccountConfig): Record<string, string> {
+  const properties = PropertiesService.getScriptProperties();
+  const credentials: Record<string, string> = {};
+  for (const field of CREDENTIAL_FIELDS[account.platform]) {
+    credentials[field] = properties.getProperty(account.credentials[field]!) || '';
+  }
+  return credentials;
+}
+
+function loadXCredentials(account: AccountConfig): XCredentials {
+  const credentials = loadAccountCredentials(account);
+  return {
+    apiKey: credentials.apiKey || '',
+    apiSecret: credentials.apiSecret || '',
+    accessToken: credentials.accessToken || '',
+    accessTokenSecret: credentials.accessTokenSecret || '',
+  };
+}
+
+function loadBlueskyCredentials(account: AccountConfig): BlueskyCredentials {
+  const credentials = loadAccountCredentials(account);
+  return { identifier: credentials.identifier || '', password: credentials.password || '' };
+}
+
+function loadMastodonCredentials(account: AccountConfig): MastodonCredentials {
+  const credentials = loadAccountCredentials(account);
+  return { instanceUrl: credentials.instanceUrl || '', accessToken: credentials.accessToken || '' };
+}
+
+function loadMisskeyCredentials(account: AccountConfig): MisskeyCredentials {
+  const credentials = loadAccountCredentials(account);
+  return { instanceUrl: credentials.instanceUrl || '', accessToken: credentials.accessToken || '' };
+}
+
+/**
+ * Log every registry entry and whether its credentials are set
+ * Run manually from the editor after changing ACCOUNT_REGISTRY
+ */
+function validateAccountRegistry(): void {
+  for (const account of loadAccountRegistry()) {
+    const configured = hasCredentials(loadAccountCredentials(account));
+    Logger.log(
+      `${account.name} (${account.platform}, ${account.languages.join('/')}): ` +
+        `${account.enabled ? 'enabled' : 'disabled'}, ` +
+        `credentials ${configured ? 'set' : 'missing'}`
+    );
+  }
+}
+
+/**
+ * True when every credential value is set in Script Properties
+ */
+function hasCredentials(credentials: unknown): boolean {
+  return Object.values(credentials as Record<string, unknown>).every((value) => !!value);
+}
+
+// ============================================================================
+// Content Filter Functions
+// ============================================================================
+
+const CONTENT_FILTER_KEY_PREFIX = 'CONTENT_FILTER_';
+const CONTENT_FILTER_LIST_FIELDS = [
+  'allowBooks',
+  'blockBooks',
+  'allowAuthors',
+  'blockAuthors',
+  'blockKeywords',
+] as const;
+
+function getContentFilterKey(lang: Language): string {
+  return `${CONTENT_FILTER_KEY_PREFIX}${lang.toUpperCase()}`;
+}
+
+/**
+ * Return the problems with a filter config; an empty list means it is usable
+ */
+function validateContentFilterConfig(config: unknown): string[] {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return ['filter is not an object'];
+  }
+  const fields = config as Record<string, unknown>;
+
+  const errors: string[] = [];
+  for (const field of ['minLength', 'maxLength']) {
+    const value = fields[field];
+    if (
+      value !== undefined &&
+      value !== null &&
+      !(typeof value === 'number' && Number.isInteger(value) && value >= 0)
+    ) {
+      errors.push(`${field} must be a non-negative integer`);
+    }
+  }
+  const { minLength, maxLength } = fields;
+  if (typeof minLength === 'number' && typeof maxLength === 'number' && minLength > maxLength) {
+    errors.push('minLength must not exceed maxLength');
+  }
+  for (const field of CONTENT_FILTER_LIST_FIELDS) {
+    const value = fields[field];
+    if (
+      value !== undefined &&
+      !(Array.isArray(value) && value.every((item: unknown) => typeof item === 'string'))
+    ) {
+      errors.push(`${field} must be a list of strings`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Load filters from CONTENT_FILTER_JA / CONTENT_FILTER_EN (a JSON ContentFilterConfig)
+ * A broken filter aborts the run instead of posting sentences it was meant to block
+ */
+function loadContentFilter(lang: Language): ContentFilterConfig | null {
+  const key = getContentFilterKey(lang);
+  const stored = PropertiesService.getScriptProperties().getProperty(key);
+  if (!stored) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch (error) {
+    throw new Error(`${key} is not valid JSON: ${error}`);
+  }
+  const errors = validateContentFilterConfig(parsed);
+  if (errors.length > 0) {
+    throw new Error(`${key} is invalid: ${errors.join('; ')}`);
+  }
+
+  const config = parsed as Record<string, unknown>;
+  const list = (field: typeof CONTENT_FILTER_LIST_FIELDS[number]): string[] =>
+    ((config[field] as string[] | undefined) || [])
+      .map((item) => normalizeFilterText(item))
+      .filter((item) => item !== '');
+  return {
+    minLength: typeof config.minLength === 'number' ? config.minLength : null,
+    maxLength: typeof config.maxLength === 'number' ? config.maxLength : null,
+    allowBooks: list('allowBooks'),
+    blockBooks: list('blockBooks'),
+    allowAuthors: list('allowAuthors'),
+    blockAuthors: list('blockAuthors'),
+    blockKeywords: list('blockKeywords'),
+  };
+}
+
+/**
+ * NFKC + lower case so full-width and half-width spellings match the same entry
+ */
+function normalizeFilterText(text: string): string {
+  return text.normalize('NFKC').toLowerCase().trim();
+}
+
+function getSentenceLength(data: SentenceResponse): number {
+  return 'char_count' in data ? data.char_count : data.word_count;
+}
+
+/**
+ * Return why a sentence is filtered out, or null if it passes
+ */
+function getContentFilterReason(
+  data: SentenceResponse,
+  filter: ContentFilterConfig | null
+): string | null {
+  if (!filter) {
+    return null;
+  }
+
+  const length = getSentenceLength(data);
+  const unit = 'char_count' in data ? 'chars' : 'words';
+  if (filter.minLength !== null && length < filter.minLength) {
+    return `too short (${length} ${unit} < ${filter.minLength})`;
+  }
+  if (filter.maxLength !== null && length > filter.maxLength) {
+    return `too long (${length} ${unit} > ${filter.maxLength})`;
+  }
+
+  const books = [normalizeFilterText(data.book_id), normalizeFilterText(data.title)];
+  const author = normalizeFilterText(data.author);
+  if (filter.allowBooks.length > 0 && !books.some((book) => filter.allowBooks.includes(book))) {
+    return `book "${data.title}" is not in allowBooks`;
+  }
+  if (books.some((book) => filter.blockBooks.includes(book))) {
+    return `book "${data.title}" is in blockBooks`;
+  }
+  if (filter.allowAuthors.length > 0 && !filter.allowAuthors.includes(author)) {
+    return `author "${data.author}" is not in allowAuthors`;
+  }
+  if (filter.blockAuthors.includes(author)) {
+    return `author "${data.author}" is in blockAuthors`;
+  }
+
+  const text = normalizeFilterText(data.sentence_text);
+  const keyword = filter.blockKeywords.find((blocked) => text.includes(blocked));
+  if (keyword) {
+    return `sentence contains blocked keyword "${keyword}"`;
+  }
+
+  return null;
+}
+
+/**
+ * Log the active filters for both languages
+ * Run manually from the editor after changing CONTENT_FILTER_JA / CONTENT_FILTER_EN
+ */
+function validateContentFilters(): void {
+  (['ja', 'en'] as Language[]).forEach((lang) => {
+    try {
+      const filter = loadContentFilter(lang);
+      Logger.log(`${getContentFilterKey(lang)}: ${filter ? JSON.stringify(filter) : 'not set'}`);
+    } catch (error) {
+      Logger.log(String(error));
+    }
+  });
+}
+
+// ============================================================================
+// Post History Functions
+// ============================================================================
+
+const POST_HISTORY_KEY_PREFIX = 'POST_HISTORY_';
+// Script Properties values are limited to 9KB; keep some headroom below it
+const PROPERTY_VALUE_MAX_BYTES = 9000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Serialize a list for one Script Properties value, dropping entries from one end until it fits
+ */
+function serializeWithinPropertyLimit<T>(
+  entries: T[],
+  dropFrom: 'start' | 'end' = 'start'
+): string {
+  let kept = entries;
+  let serialized = JSON.stringify(kept);
+  while (
+    kept.length > 0 &&
+    Utilities.newBlob(serialized).getBytes().length > PROPERTY_VALUE_MAX_BYTES
+  ) {
+    kept = dropFrom === 'start' ? kept.slice(1) : kept.slice(0, -1);
+    serialized = JSON.stringify(kept);
+  }
+  return serialized;
+}
+
+/**
+ * Read ledger settings from Script Properties
+ * POST_HISTORY_WINDOW_DAYS: days before a sentence may be posted again (default 90)
+ * POST_HISTORY_MAX_DRAWS: API draws before giving up on a fresh sentence (default 5),
+ *   shared with the content filters
+ * POST_HISTORY_AVOID_SAME_BOOK: 'true' to avoid the same book on consecutive days
+ */
+function getPostHistoryConfig(): PostHistoryConfig {
+  const properties = PropertiesService.getScriptProperties();
+  const windowDays = parseInt(properties.getProperty('POST_HISTORY_WINDOW_DAYS') || '', 10);
+  const maxDraws = parseInt(properties.getProperty('POST_HISTORY_MAX_DRAWS') || '', 10);
+  return {
+    windowDays: windowDays >= 0 ? windowDays : 90,
+    maxDraws: maxDraws > 0 ? maxDraws : 5,
+    avoidSameBook: properties.getProperty('POST_HISTORY_AVOID_SAME_BOOK') === 'true',
+  };
+}
+
+function loadPostHistory(lang: Language): PostHistoryEntry[] {
+  const stored = PropertiesService.getScriptProperties().getProperty(
+    `${POST_HISTORY_KEY_PREFIX}${lang.toUpperCase()}`
+  );
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(stored) as Array<StoredPostHistoryEntry | PostHistoryEntry>;
+    // Entries saved before the compact form are full objects
+    return parsed.map((entry) =>
+      Array.isArray(entry)
+        ? {
+            lang,
+            book_id: entry[0],
+            sentence_id: entry[1],
+            postedAt: new Date(entry[2] * 1000).toISOString(),
+          }
+        : entry
+    );
+  } catch (error) {
+    Logger.log(`Post history parse error (${lang}): ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Entries are stored compactly so a 90-day window fits in one property value;
+ * if it still outgrows it, the oldest entries drop off first and a log line says so
+ * A failed save is only logged: by then the posts have already gone out
+ */
+function savePostHistory(lang: Language, entries: PostHistoryEntry[]): void {
+  try {
+    const compact = entries.map((entry): StoredPostHistoryEntry => [
+      entry.book_id,
+      entry.sentence_id,
+      Math.floor(new Date(entry.postedAt).getTime() / 1000),
+    ]);
+    const serialized = serializeWithinPropertyLimit(compact);
+    const dropped = compact.length - (JSON.parse(serialized) as unknown[]).length;
+    if (dropped > 0) {
+      Logger.log(
+        `Post history ${lang} outgrew one property: dropped the ${dropped} oldest entries ` +
+          'still inside the window, so those sentences may repeat early'
+      );
+    }
+    PropertiesService.getScriptProperties().setProperty(
+      `${POST_HISTORY_KEY_PREFIX}${lang.toUpperCase()}`,
+      serialized
+    );
+  } catch (error) {
+    Logger.log(`Post history save error (${lang}): ${error}`);
+  }
+}
+
+/**
+ * Append a posted sentence to the ledger, dropping entries outside the window
+ */
+function recordPostHistory(data: SentenceResponse, lang: Language, now: Date = new Date()): void {
+  const config = getPostHistoryConfig();
+  // Keep at least two days so the same-book check still sees yesterday's post
+  const keepMs = Math.max(config.windowDays, 2) * DAY_MS;
+  const entries = loadPostHistory(lang).filter(
+    (entry) => now.getTime() - new Date(entry.postedAt).getTime() < keepMs
+  );
+
+  entries.push({
+    lang,
+    book_id: data.book_id,
+    sentence_id: data.sentence_id,
+    postedAt: now.toISOString(),
+  });
+
+  savePostHistory(lang, entries);
+  Logger.log(`Recorded post history: ${lang} ${data.book_id}/${data.sentence_id}`);
+}
+
+function toScriptDate(date: Date): string {
+  return Utilities.formatDate(date, Session.getScriptTimeZone(), 'yyyy-MM-dd');
+}
+
+/**
+ * Return why a sentence should not be posted now, or null if it is fresh
+ */
+function getRecentPostReason(
+  data: SentenceResponse,
+  history: PostHistoryEntry[],
+  config: PostHistoryConfig,
+  now: Date
+): string | null {
+  const windowMs = config.windowDays * DAY_MS;
+  const repeated = history.find(
+    (entry) =>
+      entry.book_id === data.book_id &&
+      entry.sentence_id === data.sentence_id &&
+      now.getTime() - new Date(entry.postedAt).getTime() < windowMs
+  );
+  if (repeated) {
+    return `sentence already posted at ${repeated.postedAt}`;
+  }
+
+  if (config.avoidSameBook) {
+    const today = toScriptDate(now);
+    const yesterday = toScriptDate(new Date(now.getTime() - DAY_MS));
+    const sameBook = history.find((entry) => {
+      const postedDate = toScriptDate(new Date(entry.postedAt));
+      return entry.book_id === data.book_id && (postedDate === today || postedDate === yesterday);
+    });
+    if (sameBook) {
+      return `book already posted at ${sameBook.postedAt}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Draw sentences until one passes the content filters and is not in the recent post history
+ * After the attempt limit a repeated sentence is posted anyway, but a filtered one never is
+ */
+function fetchUnpostedSentence<T extends SentenceResponse>(pipeline: LanguagePipeline<T>): T {
+  const config = getPostHistoryConfig();
+  const filter = loadContentFilter(pipeline.lang);
+  const history = loadPostHistory(pipeline.lang);
+  const now = new Date();
+
+  let fallback: { data: T; reason: string } | null = null;
+  for (let draw = 1; draw <= config.maxDraws; draw++) {
+    const data = pipeline.fetchSentence();
+    const filterReason = getContentFilterReason(data, filter);
+    if (filterReason) {
+      Logger.log(`Rejected ${data.book_id}/${data.sentence_id} by filter: ${filterReason}`);
+      continue;
+    }
+
+    const historyReason = getRecentPostReason(data, history, config, now);
+    if (!historyReason) {
+      return data;
+    }
+    Logger.log(`Rejected ${data.book_id}/${data.sentence_id} by history: ${historyReason}`);
+    fallback = { data, reason: historyReason };
+  }
+
+  if (!fallback) {
+    throw new Error(
+      `No ${pipeline.label} sentence passed the content filters after ${config.maxDraws} draws`
+    );
+  }
+  Logger.log(
+    `No fresh sentence after ${config.maxDraws} draws, posting anyway: ${fallback.reason}`
+  );
+  return fallback.data;
+}
+
+// ============================================================================
+// Text Length Functions
+// ============================================================================
+
+const X_MAX_WEIGHTED_LENGTH = 280;
+const X_URL_LENGTH = 23;
+const BLUESKY_MAX_GRAPHEMES = 300;
+const MASTODON_MAX_LENGTH = 500;
+const MASTODON_URL_LENGTH = 23;
+const MISSKEY_MAX_LENGTH = 3000;
+const ELLIPSIS = '…';
+
+/**
+ * twitter-text v3 weighting: Latin-1 and common punctuation count 1,
+ * everything else (CJK, emoji) counts 2, and every URL counts 23
+ */
+function countXLength(text: string): number {
+  let length = 0;
+  const withoutUrls = text.replace(/https?:\/\/\S+/g, () => {
+    length += X_URL_LENGTH;
+    return '';
+  });
+
+  for (const char of Array.from(withoutUrls)) {
+    const code = char.codePointAt(0)!;
+    const isLight =
+      code <= 0x10ff ||
+      (code >= 0x2000 && code <= 0x200d) ||
+      (code >= 0x2010 && code <= 0x201f) ||
+      (code >= 0x2032 && code <= 0x2037);
+    length += isLight ? 1 : 2;
+  }
+  return length;
+}
+
+/**
+ * Approximate grapheme clusters
+ * Combining marks, variation selectors, skin tones and ZWJ sequences join the previous character
+ */
+function splitGraphemes(text: string): string[] {
+  const graphemes: string[] = [];
+  let current = '';
+  let joinNext = false;
+
+  for (const char of Array.from(text)) {
+    const code = char.codePointAt(0)!;
+    const isExtender =
+      (code >= 0x0300 && code <= 0x036f) ||
+      (code >= 0x3099 && code <= 0x309a) ||
+      (code >= 0xfe00 && code <= 0xfe0f) ||
+      (code >= 0x1f3fb && code <= 0x1f3ff) ||
+      (code >= 0xe0100 && code <= 0xe01ef);
+
+    if (current && code !== 0x200d && !isExtender && !joinNext) {
+      graphemes.push(current);
+      current = '';
+    }
+    current += char;
+    joinNext = code === 0x200d;
+  }
+  if (current) {
+    graphemes.push(current);
+  }
+  return graphemes;
+}
+
+/**
+ * Approximate grapheme count for Bluesky's 300-grapheme limit
+ */
+function countBlueskyLength(text: string): number {
+  return splitGraphemes(text).length;
+}
+
+/**
+ * Mastodon counts code points, with every URL counted as 23
+ */
+function countMastodonLength(text: string): number {
+  let urlLength = 0;
+  const withoutUrls = text.replace(/https?:\/\/\S+/g, () => {
+    urlLength += MASTODON_URL_LENGTH;
+    return '';
+  });
+  return urlLength + Array.from(withoutUrls).length;
+}
+
+function countCodePoints(text: string): number {
+  return Array.from(text).length;
+}
+
+const X_TEXT_LIMIT: TextLimit = { maxLength: X_MAX_WEIGHTED_LENGTH, measure: countXLength };
+const BLUESKY_TEXT_LIMIT: TextLimit = {
+  maxLength: BLUESKY_MAX_GRAPHEMES,
+  measure: countBlueskyLength,
+};
+const MASTODON_TEXT_LIMIT: TextLimit = {
+  maxLength: MASTODON_MAX_LENGTH,
+  measure: countMastodonLength,
+};
+const MISSKEY_TEXT_LIMIT: TextLimit = { maxLength: MISSKEY_MAX_LENGTH, measure: countCodePoints };
+
+/**
+ * Longest prefix of value (ellipsized) for which the rendered text still fits
+ * Cuts only between graphemes, and returns null when even one plus the ellipsis does not fit
+ */
+function findLongestFittingPrefix(
+  value: string,
+  render: (value: string) => string,
+  limit: TextLimit
+): string | null {
+  const chars = splitGraphemes(value);
+  let low = 1;
+  let high = chars.length - 1;
+  let best: string | null = null;
+
+  while (low <= high) {
+    const keep = Math.floor((low + high) / 2);
+    const candidate = `${chars.slice(0, keep).join('').trimEnd()}${ELLIPSIS}`;
+    if (limit.measure(render(candidate)) <= limit.maxLength) {
+      best = candidate;
+      low = keep + 1;
+    } else {
+      high = keep - 1;
+    }
+  }
+  return best;
+}
+
+/**
+ * Build share content that fits the platform limit
+ * Shortens the title first, then the author, then a templated sentence;
+ * the hashtags and URL are never touched
+ */
+function fitShareContent<T extends SentenceResponse>(
+  pipeline: LanguagePipeline<T>,
+  data: T,
+  platform: Platform,
+  limit: TextLimit
+): ShareContent | null {
+  const content = pipeline.generateShareContent(data, platform);
+  if (limit.measure(content.text) <= limit.maxLength) {
+    return content;
+  }
+
+  let shortened = data;
+  for (const field of ['title', 'author', 'sentence_text'] as const) {
+    const render = (value: string): string =>
+      pipeline.generateShareContent({ ...shortened, [field]: value }, platform).text;
+    const value = findLongestFittingPrefix(shortened[field], render, limit);
+
+    if (value !== null) {
+      Logger.log(`Shortened ${field} to fit ${limit.maxLength}: ${value}`);
+      return pipeline.generateShareContent({ ...shortened, [field]: value }, platform);
+    }
+    shortened = { ...shortened, [field]: ELLIPSIS };
+  }
+  return null;
+}
+
+// ============================================================================
+// Thread Functions
+// ============================================================================
+
+// Split at sentence ends first, then clause punctuation, then whitespace
+const THREAD_BOUNDARIES = [
+  /[。！？!?．.]+[」』）)"”’]*\s*/g,
+  /[、，,;；：:]\s*/g,
+  /\s+/g,
+];
+
+/**
+ * THREAD_MODE: 'true' to reply to each post with the full sentence text
+ */
+function isThreadModeEnabled(): boolean {
+  return PropertiesService.getScriptProperties().getProperty('THREAD_MODE') === 'true';
+}
+
+function splitAfterBoundary(text: string, boundary: RegExp): string[] {
+  return text
+    .replace(boundary, (match) => `${match}\u0000`)
+    .split('\u0000')
+    .filter((piece) => piece.length > 0);
+}
+
+/**
+ * Split text into chunks that each fit maxLength, preferring natural boundaries
+ * and falling back to a hard cut only for unbroken runs of text
+ */
+function splitTextForThread(
+  text: string,
+  maxLength: number,
+  measure: (text: string) => number,
+  level: number = 0
+): string[] {
+  if (measure(text) <= maxLength) {
+    return [text.trim()].filter((chunk) => chunk.length > 0);
+  }
+
+  const boundary = THREAD_BOUNDARIES[level];
+  const pieces = boundary ? splitAfterBoundary(text, boundary) : Array.from(text);
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (measure(piece) > maxLength) {
+      chunks.push(current);
+      current = '';
+      chunks.push(...splitTextForThread(piece, maxLength, measure, level + 1));
+    } else if (measure(current + piece) > maxLength) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current += piece;
+    }
+  }
+  chunks.push(current);
+
+  return chunks.map((chunk) => chunk.trim()).filter((chunk) => chunk.length > 0);
+}
+
+// ============================================================================
+// Dry Run Functions
+// ============================================================================
+
+// Image URLs already checked in this execution; every publisher shares the same OGP image
+const checkedImageUrls: Record<string, string[]> = {};
+
+/**
+ * DRY_RUN: 'true' to build and validate payloads on every entry point without posting
+ */
+function isDryRunEnabled(): boolean {
+  return PropertiesService.getScriptProperties().getProperty('DRY_RUN') === 'true';
+}
+
+function validateTextLength(text: string, limit: TextLimit): string[] {
+  const length = limit.measure(text);
+  return length > limit.maxLength ? [`text length ${length} exceeds ${limit.maxLength}`] : [];
+}
+
+/**
+ * Make sure the OGP image resolves to an image without uploading it anywhere
+ */
+function checkImageUrl(imageUrl: string): string[] {
+  const checked = checkedImageUrls[imageUrl];
+  if (checked) {
+    return checked;
+  }
+
+  const result = fetchWithRetry('OGP image check', imageUrl);
+  let errors: string[] = [];
+  if (!result.ok) {
+    errors = [`OGP image did not resolve: ${result.error.message}`];
+  } else {
+    const contentType = result.response.getBlob().getContentType() || '';
+    if (!contentType.startsWith('image/')) {
+      errors = [`OGP image has unexpected content type: ${contentType}`];
+    }
+  }
+
+  checkedImageUrls[imageUrl] = errors;
+  return errors;
+}
+
+/**
+ * Shared preview: payload plus text, image and thread checks
+ */
+function buildPostPreview(
+  payload: unknown,
+  text: string,
+  limit: TextLimit,
+  imageUrl: string,
+  sentence: SentenceResponse,
+  extraErrors: string[] = []
+): PostPreview {
+  const preview: PostPreview = {
+    payload,
+    imageUrl,
+    errors: [...validateTextLength(text, limit), ...checkImageUrl(imageUrl), ...extraErrors],
+  };
+
+  if (isThreadModeEnabled()) {
+    preview.thread = splitTextForThread(sentence.sentence_text, limit.maxLength, limit.measure);
+  }
+  return preview;
+}
+
+// ============================================================================
+// Post Log Functions
+// ============================================================================
+
+const POST_LOG_SHEET_NAME = 'PostLog';
+const POST_LOG_HEADERS = [
+  'run_at',
+  'lang',
+  'book_id',
+  'sentence_id',
+  'title',
+  'author',
+  // Publisher (account) name; the column was named platform before accounts were added
+  'account',
+  'post_id',
+  'permalink',
+  'posted_at',
+  'status',
+  'error',
+  'platform',
+];
+
+/**
+ * Open a sheet of the log spreadsheet, creating it with headers on first use
+ * POST_LOG_SPREADSHEET_ID: spreadsheet to log to; logging is off when unset
+ */
+function getLogSheet(name: string, headers: string[]): GoogleAppsScript.Spreadsheet.Sheet | null {
+  const spreadsheetId = PropertiesService.getScriptProperties().getProperty(
+    'POST_LOG_SPREADSHEET_ID'
+  );
+  if (!spreadsheetId) {
+    return null;
+  }
+
+  const spreadsheet = SpreadsheetApp.openById(spreadsheetId);
+  let sheet = spreadsheet.getSheetByName(name);
+  if (!sheet) {
+    sheet = spreadsheet.insertSheet(name);
+    sheet.appendRow(headers);
+    sheet.setFrozenRows(1);
+  }
+  return sheet;
+}
+
+/**
+ * Append rows below the last one, writing the named columns as plain text
+ * Sheets would otherwise turn 19-digit X IDs into numbers and lose their last digits
+ */
+function appendLogRows(
+  sheet: GoogleAppsScript.Spreadsheet.Sheet,
+  headers: string[],
+  rows: unknown[][],
+  textColumns: string[]
+): void {
+  const firstRow = sheet.getLastRow() + 1;
+  for (const name of textColumns) {
+    sheet.getRange(firstRow, headers.indexOf(name) + 1, rows.length, 1).setNumberFormat('@');
+  }
+  sheet.getRange(firstRow, 1, rows.length, headers.length).setValues(rows);
+}
+
+function getPostLogSheet(): GoogleAppsScript.Spreadsheet.Sheet | null {
+  return getLogSheet(POST_LOG_SHEET_NAME, POST_LOG_HEADERS);
+}
+
+function getResultStatus(result: PublishResult): string {
+  if (result.success) {
+    return 'success';
+  }
+  return result.skipped ? 'skipped' : 'failed';
+}
+
+/**
+ * Append one row per platform for a run
+ * Logging problems are reported but never fail the run
+ */
+function appendRunToPostLog(report: RunReport, runAt: Date = new Date()): void {
+  try {
+    const sheet = getPostLogSheet();
+    if (!sheet) {
+      return;
+    }
+
+    const sentence = report.sentence;
+    const rows = report.results.map((result) => [
+      runAt.toISOString(),
+      report.lang,
+      sentence ? sentence.book_id : '',
+      sentence ? sentence.sentence_id : '',
+      sentence ? sentence.title : '',
+      sentence ? sentence.author : '',
+      result.account,
+      result.post ? result.post.id : '',
+      result.post ? result.post.permalink : '',
+      result.post ? result.post.postedAt : '',
+      getResultStatus(result),
+      result.error || report.error || '',
+      result.platform,
+    ]);
+    if (rows.length === 0) {
+      return;
+    }
+
+    appendLogRows(sheet, POST_LOG_HEADERS, rows, ['post_id']);
+    Logger.log(`Appended ${rows.length} rows to post log`);
+  } catch (error) {
+    Logger.log(`Post log error: ${error}`);
+  }
+}
+
+// ============================================================================
+// Notification Functions
+// ============================================================================
+
+const NOTIFY_LAST_ALERTS_KEY = 'NOTIFY_LAST_ALERTS';
+const NOTIFY_EXCERPT_LENGTH = 300;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Read notification settings from Script Properties
+ * NOTIFY_ONLY_ON_FAILURE: 'true' to stay quiet when every platform succeeded
+ * NOTIFY_SUPPRESS_HOURS: hours to suppress a repeat of the same failure (default 24)
+ */
+function getNotificationConfig(): NotificationConfig {
+  const properties = PropertiesService.getScriptProperties();
+  const suppressHours = parseFloat(properties.getProperty('NOTIFY_SUPPRESS_HOURS') || '');
+  return {
+    onlyOnFailure: properties.getProperty('NOTIFY_ONLY_ON_FAILURE') === 'true',
+    suppressHours: suppressHours >= 0 ? suppressHours : 24,
+  };
+}
+
+function splitPropertyList(value: string | null): string[] {
+  return (value || '')
+    .split(/[,\s]+/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function createEmailNotifier(recipients: string[]): Notifier {
+  return {
+    name: 'Email',
+    send: (subject, body) => {
+      try {
+        MailApp.sendEmail(recipients.join(','), subject, body);
+        return true;
+      } catch (error) {
+        Logger.log(`Email notification error: ${error}`);
+        return false;
+      }
+    },
+  };
+}
+
+/**
+ * Discord webhooks take `content`; Slack and compatible services take `text`
+ */
+function createWebhookNotifier(webhookUrl: string): Notifier {
+  const isDiscord = /discord(app)?\.com\/api\/webhooks\//.test(webhookUrl);
+  return {
+    name: isDiscord ? 'Discord' : 'Webhook',
+    send: (subject, body) => {
+      const message = `*${subject}*\n${body}`;
+      const payload = isDiscord ? { content: message.substring(0, 2000) } : { text: message };
+      // Not retried on an ambiguous failure, which could post the alert twice
+      const result = fetchWithRetry(
+        'Webhook notification',
+        webhookUrl,
+        { method: 'post', contentType: 'application/json', payload: JSON.stringify(payload) },
+        false
+      );
+      return result.ok;
+    },
+  };
+}
+
+/**
+ * NOTIFY_EMAIL and NOTIFY_WEBHOOK_URLS hold comma-separated recipients and webhook URLs
+ */
+function getNotifiers(): Notifier[] {
+  const properties = PropertiesService.getScriptProperties();
+  const notifiers: Notifier[] = [];
+
+  const recipients = splitPropertyList(properties.getProperty('NOTIFY_EMAIL'));
+  if (recipients.length > 0) {
+    notifiers.push(createEmailNotifier(recipients));
+  }
+  for (const webhookUrl of splitPropertyList(properties.getProperty('NOTIFY_WEBHOOK_URLS'))) {
+    notifiers.push(createWebhookNotifier(webhookUrl));
+  }
+  return notifiers;
+}
+
+function isFailedRun(report: RunReport): boolean {
+  return !!report.error || report.results.some((result) => !result.success && !result.skipped);
+}
+
+/**
+ * Identifies a recurring failure: the same platforms failing the same way
+ */
+function getFailureFingerprint(report: RunReport): string {
+  if (report.error) {
+    return `${report.lang}:run:${report.error.substring(0, 100)}`;
+  }
+
+  const failures = report.results
+    .filter((result) => !result.success && !result.skipped)
+    .map((result) => `${result.account}:${result.errorKind || ''}:${result.status || ''}`)
+    .sort();
+  return `${report.lang}:${failures.join(',')}`;
+}
+
+function loadLastAlerts(): Record<string, number> {
+  try {
+    const stored = PropertiesService.getScriptProperties().getProperty(NOTIFY_LAST_ALERTS_KEY);
+    return JSON.parse(stored || '{}');
+  } catch (error) {
+    Logger.log(`Notification history parse error: ${error}`);
+    return {};
+  }
+}
+
+/**
+ * True if the same failure was already alerted within the suppression window
+ */
+function isDuplicateAlert(fingerprint: string, suppressHours: number, now: number): boolean {
+  const lastSent = loadLastAlerts()[fingerprint];
+  return lastSent !== undefined && now - lastSent < suppressHours * HOUR_MS;
+}
+
+/**
+ * Remember an alert once it reached someone, so the same failure is suppressed for a while
+ */
+function recordAlert(fingerprint: string, suppressHours: number, now: number): void {
+  // Forget alerts outside the window so the property does not grow forever
+  const kept: Record<string, number> = { [fingerprint]: now };
+  for (const [key, sentAt] of Object.entries(loadLastAlerts())) {
+    if (key !== fingerprint && now - sentAt < suppressHours * HOUR_MS) {
+      kept[key] = sentAt;
+    }
+  }
+  PropertiesService.getScriptProperties().setProperty(
+    NOTIFY_LAST_ALERTS_KEY,
+    JSON.stringify(kept)
+  );
+}
+
+function formatRunReport(report: RunReport): { subject: string; body: string } {
+  const failed = report.results.filter((result) => !result.success && !result.skipped);
+  let status = 'succeeded';
+  if (report.error) {
+    status = 'run failed';
+  } else if (failed.length > 0) {
+    status = `failed on ${failed.map((result) => result.account).join(', ')}`;
+  }
+  const resumed = report.resumed ? ' (resumed)' : '';
+  const subject = `[Random Shosha] ${report.label} post${resumed} ${status}`;
+
+  const lines: string[] = [];
+  if (report.sentence) {
+    const { title, author, book_id, sentence_id, sentence_text } = report.sentence;
+    lines.push(`Sentence: ${title} / ${author} (${book_id}/${sentence_id})`);
+    lines.push(sentence_text);
+    lines.push('');
+  }
+  if (report.error) {
+    lines.push(`Error: ${report.error.substring(0, NOTIFY_EXCERPT_LENGTH)}`);
+  }
+
+  for (const result of report.results) {
+    if (result.success) {
+      lines.push(`${result.account}: Success ${result.post ? result.post.permalink : ''}`.trim());
+    } else if (result.skipped) {
+      lines.push(`${result.account}: Skipped`);
+    } else {
+      const detail = [result.status, result.errorKind].filter((part) => part).join(' ');
+      const excerpt = (result.error || '').substring(0, NOTIFY_EXCERPT_LENGTH);
+      lines.push(`${result.account}: Failed${detail ? ` (${detail})` : ''} ${excerpt}`.trim());
+    }
+  }
+
+  return { subject, body: lines.join('\n') };
+}
+
+/**
+ * Send the run summary to every configured notifier
+ * Notification problems are logged and never fail the run
+ */
+function notifyRunReport(report: RunReport): void {
+  try {
+    const notifiers = getNotifiers();
+    if (notifiers.length === 0) {
+      return;
+    }
+
+    const config = getNotificationConfig();
+    const failed = isFailedRun(report);
+    if (!failed && config.onlyOnFailure) {
+      return;
+    }
+    const fingerprint = getFailureFingerprint(report);
+    const now = Date.now();
+    if (failed && isDuplicateAlert(fingerprint, config.suppressHours, now)) {
+      Logger.log('Notification suppressed: same failure already alerted');
+      return;
+    }
+
+    const { subject, body } = formatRunReport(report);
+    let delivered = false;
+    for (const notifier of notifiers) {
+      const sent = notifier.send(subject, body);
+      Logger.log(`${notifier.name} notification: ${sent ? 'Sent' : 'Failed'}`);
+      delivered = delivered || sent;
+    }
+    // An alert nobody received is sent again on the next failure
+    if (failed && delivered) {
+      recordAlert(fingerprint, config.suppressHours, now);
+    }
+  } catch (error) {
+    Logger.log(`Notification error: ${error}`);
+  }
+}
+
+// ============================================================================
+// Resume Functions
+// ============================================================================
+
+const PENDING_RUN_KEY_PREFIX = 'PENDING_RUN_';
+
+function getPendingRunKey(lang: Language): string {
+  return `${PENDING_RUN_KEY_PREFIX}${lang.toUpperCase()}`;
+}
+
+/**
+ * RESUME_MAX_AGE_HOURS: how long a partly failed run is retried (default 12)
+ * Kept below a day so the next daily trigger draws a new sentence for every account
+ */
+function getResumeMaxAgeMs(): number {
+  const properties = PropertiesService.getScriptProperties();
+  const hours = parseFloat(properties.getProperty('RESUME_MAX_AGE_HOURS') || '');
+  return (hours >= 0 ? hours : 12) * HOUR_MS;
+}
+
+/**
+ * Load the pending run for a language; expired or unreadable state is discarded
+ */
+function loadPendingRun(lang: Language, now: Date = new Date()): PendingRun | null {
+  const key = getPendingRunKey(lang);
+  const stored = PropertiesService.getScriptProperties().getProperty(key);
+  if (!stored) {
+    return null;
+  }
+
+  try {
+    const run = JSON.parse(stored) as PendingRun;
+    if (now.getTime() - new Date(run.startedAt).getTime() <= getResumeMaxAgeMs()) {
+      return run;
+    }
+    Logger.log(`Discarding pending ${lang} run from ${run.startedAt}: too old to resume`);
+  } catch (error) {
+    Logger.log(`Pending run parse error (${lang}): ${error}`);
+  }
+  clearPendingRun(lang);
+  return null;
+}
+
+/**
+ * Script Properties values are limited to 9KB; a very long sentence cannot be resumed
+ */
+function savePendingRun(run: PendingRun): void {
+  try {
+    PropertiesService.getScriptProperties().setProperty(
+      getPendingRunKey(run.lang),
+      JSON.stringify(run)
+    );
+    const failed = Object.keys(run.accounts).filter(
+      (name) => run.accounts[name]!.status === 'failed'
+    );
+    Logger.log(`Saved pending ${run.lang} run; failed accounts: ${failed.join(', ')}`);
+  } catch (error) {
+    Logger.log(`Pending run save error (${run.lang}), retries will draw a new sentence: ${error}`);
+  }
+}
+
+function clearPendingRun(lang: Language): void {
+  PropertiesService.getScriptProperties().deleteProperty(getPendingRunKey(lang));
+}
+
+/**
+ * Publishers that failed in the pending run and should receive its sentence again
+ */
+function getPublishersToResume(run: PendingRun, publishers: Publisher[]): Publisher[] {
+  return publishers.filter((publisher) => {
+    const account = run.accounts[publisher.name];
+    return !!account && account.status === 'failed';
+  });
+}
+
+/**
+ * Merge this run's results into the pending state
+ * State is kept only while the sentence is posted on some accounts and failed on others;
+ * a fresh run never clears the state left by an earlier one
+ */
+function updatePendingRun(
+  run: PendingRun | null,
+  lang: Language,
+  sentence: SentenceResponse,
+  results: PublishResult[],
+  now: Date = new Date()
+): void {
+  const accounts: Record<string, PendingAccount> = run ? { ...run.accounts } : {};
+  for (const result of results) {
+    if (result.skipped) {
+      continue;
+    }
+    const previous = accounts[result.account];
+    const attempts = (previous ? previous.attempts : 0) + 1;
+    accounts[result.account] =
+      result.success && result.post
+        ? { status: 'posted', attempts, post: result.post }
+        : { status: 'failed', attempts, error: result.error || 'unknown error' };
+  }
+
+  const statuses = Object.values(accounts).map((account) => account.status);
+  if (!statuses.includes('failed') || !statuses.includes('posted')) {
+    if (run) {
+      clearPendingRun(lang);
+      Logger.log(`Pending ${lang} run resolved`);
+    }
+    return;
+  }
+
+  savePendingRun({
+    lang,
+    sentence,
+    startedAt: run ? run.startedAt : now.toISOString(),
+    accounts,
+  });
+}
+
+// ============================================================================
+// Publishers
+// ============================================================================
+
+function createXPublisher(
+  name: string,
+  loadCredentials: () => XCredentials
+): Publisher<XCredentials> {
+  return {
+    name,
+    platform: 'x',
+    textLimit: X_TEXT_LIMIT,
+    loadCredentials,
+    publish: (content, sentence) => {
+      const ogpImageUrl = generateOGPImageUrl(
+        sentence.sentence_text,
+        sentence.title,
+        sentence.author,
+        content.lang
+      );
+      const credentials = loadCredentials();
+      const outcome = postToX(content.text, credentials, ogpImageUrl, sentence.sentence_text);
+
+      if (outcome.success && isThreadModeEnabled()) {
+        const chunks = splitTextForThread(
+          sentence.sentence_text,
+          X_MAX_WEIGHTED_LENGTH,
+          countXLength
+        );
+        if (!postXThread(outcome.post, chunks, credentials)) {
+          Logger.log(`${name} thread incomplete; main post was published`);
+        }
+      }
+      return outcome;
+    },
+    preview: (content, sentence) => {
+      const ogpImageUrl = generateOGPImageUrl(
+        sentence.sentence_text,
+        sentence.title,
+        sentence.author,
+        content.lang
+      );
+      return buildPostPreview(
+        { text: content.text },
+        content.text,
+        X_TEXT_LIMIT,
+        ogpImageUrl,
+        sentence
+      );
+    },
+  };
+}
+
+function createBlueskyPublisher(
+  name: string,
+  loadCredentials: () => BlueskyCredentials
+): Publisher<BlueskyCredentials> {
+  return {
+    name,
+    platform: 'bluesky',
+    textLimit: BLUESKY_TEXT_LIMIT,
+    loadCredentials,
+    publish: (content, sentence) => {
+      // Generate OGP image URL from sentence data
+      const ogpImageUrl = generateOGPImageUrl(
+        sentence.sentence_text,
+        sentence.title,
+        sentence.author,
+        content.lang
+      );
+      const card = renderCardText(sentence, content.lang, content.url);
+      const credentials = loadCredentials();
+      const outcome = postToBluesky(
+        content.text,
+        credentials,
+        content.url,
+        card.title,
+        card.description,
+        ogpImageUrl,
+        sentence.sentence_text,
+        getBlueskyEmbedMode()
+      );
+
+      if (outcome.success && isThreadModeEnabled()) {
+        const chunks = splitTextForThread(
+          sentence.sentence_text,
+          BLUESKY_MAX_GRAPHEMES,
+          countBlueskyLength
+        );
+        if (!postBlueskyThread(outcome.post, chunks, credentials)) {
+          Logger.log(`${name} thread incomplete; main post was published`);
+        }
+      }
+      return outcome;
+    },
+    preview: (content, sentence) => {
+      const ogpImageUrl = generateOGPImageUrl(
+        sentence.sentence_text,
+        sentence.title,
+        sentence.author,
+        content.lang
+      );
+      const card = renderCardText(sentence, content.lang, content.url);
+      // The blob upload is skipped, so the embed has no thumb or image blob
+      let record: any;
+      if (getBlueskyEmbedMode() === 'images') {
+        record = buildBlueskyPostRecord(content.text);
+        record.embed = buildBlueskyImagesEmbed(null, sentence.sentence_text, null);
+      } else {
+        record = buildBlueskyPostRecord(content.text, content.url, card.title, card.description);
+      }
+      return buildPostPreview(
+        record,
+        content.text,
+        BLUESKY_TEXT_LIMIT,
+        ogpImageUrl,
+        sentence,
+        validateBlueskyFacets(record)
+      );
+    },
+  };
+}
+
+function createMastodonPublisher(
+  name: string,
+  loadCredentials: () => MastodonCredentials
+): Publisher<MastodonCredentials> {
+  return {
+    name,
+    platform: 'mastodon',
+    textLimit: MASTODON_TEXT_LIMIT,
+    loadCredentials,
+    publish: (content, sentence) => {
+      const ogpImageUrl = generateOGPImageUrl(
+        sentence.sentence_text,
+        sentence.title,
+        sentence.author,
+        content.lang
+      );
+      return postToMastodon(
+        content.text,
+        loadCredentials(),
+        content.lang,
+        ogpImageUrl,
+        sentence.sentence_text
+      );
+    },
+    preview: (content, sentence) => {
+      const ogpImageUrl = generateOGPImageUrl(
+        sentence.sentence_text,
+        sentence.title,
+        sentence.author,
+        content.lang
+      );
+      return buildPostPreview(
+        buildMastodonStatusPayload(content.text, content.lang),
+        content.text,
+        MASTODON_TEXT_LIMIT,
+        ogpImageUrl,
+        sentence
+      );
+    },
+  };
+}
+
+function createMisskeyPublisher(
+  name: string,
+  loadCredentials: () => MisskeyCredentials
+): Publisher<MisskeyCredentials> {
+  return {
+    name,
+    platform: 'misskey',
+    textLimit: MISSKEY_TEXT_LIMIT,
+    loadCredentials,
+    publish: (content, sentence) => {
+      const ogpImageUrl = generateOGPImageUrl(
+        sentence.sentence_text,
+        sentence.title,
+        sentence.author,
+        content.lang
+      );
+      return postToMisskey(content.text, loadCredentials(), ogpImageUrl, sentence.sentence_text);
+    },
+    preview: (content, sentence) => {
+      const ogpImageUrl = generateOGPImageUrl(
+        sentence.sentence_text,
+        sentence.title,
+        sentence.author,
+        content.lang
+      );
+      return buildPostPreview(
+        buildMisskeyNotePayload(content.text),
+        content.text,
+        MISSKEY_TEXT_LIMIT,
+        ogpImageUrl,
+        sentence
+      );
+    },
+  };
+}
+
+function createPublisherForAccount(account: AccountConfig): Publisher {
+  switch (account.platform) {
+    case 'x':
+      return createXPublisher(account.name, () => loadXCredentials(account));
+    case 'bluesky':
+      return createBlueskyPublisher(account.name, () =>
+        loadBlueskyCredentials(account)
+      );
+    case 'mastodon':
+      return createMastodonPublisher(account.name, () =>
+        loadMastodonCredentials(account)
+      );
+    case 'misskey':
+      return createMisskeyPublisher(account.name, () =>
+        loadMisskeyCredentials(account)
+      );
+  }
+}
+
+/**
+ * Publishers for every enabled account routed to the language,
+ * optionally limited to some platforms
+ */
+function getPublishers(lang: Language, platforms?: Platform[]): Publisher[] {
+  return loadAccountRegistry()
+    .filter(
+      (account) =>
+        account.enabled &&
+        account.languages.includes(lang) &&
+        (!platforms || platforms.includes(account.platform))
+    )
+    .map(createPublisherForAccount);
+}
+
+const JAPANESE_PIPELINE: LanguagePipeline<JapaneseSentenceResponse> = {
+  lang: 'ja',
+  label: 'Japanese',
+  fetchSentence: fetchJapaneseSentence,
+  generateShareContent: generateJapaneseShareContent,
+};
+
+const ENGLISH_PIPELINE: LanguagePipeline<EnglishSentenceResponse> = {
+  lang: 'en',
+  label: 'English',
+  fetchSentence: fetchEnglishSentence,
+  generateShareContent: generateEnglishShareContent,
+};
+
+/**
+ * Fit the share text to the publisher's limit, then publish it
+ */
+function publishWithinLimit<T extends SentenceResponse>(
+  publisher: Publisher,
+  pipeline: LanguagePipeline<T>,
+  data: T
+): PostOutcome {
+  const shareContent = fitShareContentForPublisher(publisher, pipeline, data);
+  if (shareContent instanceof RequestError) {
+    return { success: false, error: shareContent };
+  }
+  return publisher.publish(shareContent, data);
+}
+
+function fitShareContentForPublisher<T extends SentenceResponse>(
+  publisher: Publisher,
+  pipeline: LanguagePipeline<T>,
+  data: T
+): ShareContent | RequestError {
+  const shareContent = fitShareContent(pipeline, data, publisher.platform, publisher.textLimit);
+
+  if (!shareContent) {
+    const limit = publisher.textLimit.maxLength;
+    const message = `${publisher.name} post text exceeds ${limit} even when shortened`;
+    return new RequestError('validation', null, '', message);
+  }
+  return shareContent;
+}
+
+/**
+ * Dry run counterpart of publishWithinLimit: logs the payload instead of posting
+ */
+function previewWithinLimit<T extends SentenceResponse>(
+  publisher: Publisher,
+  pipeline: LanguagePipeline<T>,
+  data: T
+): PublishResult {
+  const shareContent = fitShareContentForPublisher(publisher, pipeline, data);
+  if (shareContent instanceof RequestError) {
+    Logger.log(`${publisher.name} dry run: ${shareContent.message}`);
+    return {
+      account: publisher.name,
+      platform: publisher.platform,
+      success: false,
+      error: shareContent.message,
+    };
+  }
+
+  const preview = publisher.preview(shareContent, data);
+  Logger.log(`${publisher.name} dry run payload: ${JSON.stringify(preview.payload)}`);
+  if (preview.thread) {
+    Logger.log(`${publisher.name} dry run thread: ${JSON.stringify(preview.thread)}`);
+  }
+
+  if (preview.errors.length > 0) {
+    const error = preview.errors.join('; ');
+    Logger.log(`${publisher.name} dry run result: Invalid (${error})`);
+    return {
+      account: publisher.name,
+      platform: publisher.platform,
+      success: false,
+      error,
+      preview,
+    };
+  }
+  Logger.log(`${publisher.name} dry run result: Valid`);
+  return { account: publisher.name, platform: publisher.platform, success: true, preview };
+}
+
+/**
+ * Fetch one sentence and publish it through every given publisher
+ * A failing publisher does not stop the remaining ones; publishers
+ * without credentials in Script Properties are skipped.
+ * When resuming a pending run, its sentence is reused and accounts that already
+ * posted it are left out; a sentenceRef re-posts that sentence instead of drawing one.
+ * In a dry run nothing is posted and no state is touched
+ */
+function publishSentence<T extends SentenceResponse>(
+  pipeline: LanguagePipeline<T>,
+  publishers: Publisher[],
+  dryRun: boolean = false,
+  pending: PendingRun | null = null,
+  sentenceRef: SentenceRef | null = null
+): RunReport {
+  let data: T;
+  let targets = publishers;
+  if (pending) {
+    data = pending.sentence as T;
+    Logger.log(
+      `Resuming ${pipeline.label} run from ${pending.startedAt}: ` +
+        `${data.book_id}/${data.sentence_id}`
+    );
+    targets = publishers.filter((publisher) => {
+      const account = pending.accounts[publisher.name];
+      if (account && account.status === 'posted') {
+        const permalink = account.post ? account.post.permalink : '';
+        Logger.log(`${publisher.name} already posted this sentence, skipping ${permalink}`);
+        return false;
+      }
+      return true;
+    });
+  } else if (sentenceRef) {
+    // An explicit re-post skips the content filters and the history check
+    data = fetchSentenceById(pipeline.lang, sentenceRef) as T;
+  } else {
+    data = fetchUnpostedSentence(pipeline);
+  }
+
+  Logger.log(`Post text: ${pipeline.generateShareContent(data).text}`);
+
+  const results = targets.map((publisher): PublishResult => {
+    if (!hasCredentials(publisher.loadCredentials())) {
+      Logger.log(`${publisher.name} post skipped: credentials not configured`);
+      return {
+        account: publisher.name,
+        platform: publisher.platform,
+        success: false,
+        skipped: true,
+      };
+    }
+
+    if (dryRun) {
+      return previewWithinLimit(publisher, pipeline, data);
+    }
+
+    let outcome: PostOutcome;
+    try {
+      outcome = publishWithinLimit(publisher, pipeline, data);
+    } catch (error) {
+      outcome = { success: false, error: toRequestError(`${publisher.name} publish`, error) };
+    }
+
+    if (outcome.success) {
+      Logger.log(`${publisher.name} post result: Success (${outcome.post.permalink})`);
+      return {
+        account: publisher.name,
+        platform: publisher.platform,
+        success: true,
+        post: outcome.post,
+      };
+    }
+    Logger.log(`${publisher.name} post result: Failed (${outcome.error.kind})`);
+    return {
+      account: publisher.name,
+      platform: publisher.platform,
+      success: false,
+      error: outcome.error.message,
+      errorKind: outcome.error.kind,
+      ...(outcome.error.status !== null && { status: outcome.error.status }),
+    };
+  });
+
+  if (!dryRun) {
+    // A resumed sentence was recorded when it was first posted
+    if (!pending && results.some((result) => result.success)) {
+      recordPostHistory(data, pipeline.lang);
+    }
+    updatePendingRun(pending, pipeline.lang, data, results);
+  }
+  return {
+    label: pipeline.label,
+    lang: pipeline.lang,
+    dryRun,
+    sentence: data,
+    results,
+    ...(pending && { resumed: true }),
+  };
+}
+
+/**
+ * Entry point wrapper: resolves the accounts, logs the run and never throws,
+ * so triggers stay quiet. A pending run is resumed when one of the selected
+ * accounts failed in it, unless fresh is set; with resumeOnly, returns null
+ * if there is nothing to resume
+ */
+function runPost<T extends SentenceResponse>(
+  pipeline: LanguagePipeline<T>,
+  options: RunOptions = {}
+): RunReport | null {
+  const dryRun = options.dryRun ?? isDryRunEnabled();
+  const mode = dryRun ? ' (dry run)' : '';
+  let publishers: Publisher[] = [];
+
+  let report: RunReport;
+  try {
+    publishers = getPublishers(pipeline.lang, options.platforms);
+    if (publishers.length === 0) {
+      throw new Error(`No enabled ${pipeline.label} accounts for this entry point`);
+    }
+
+    const skipPending = dryRun || options.sentenceRef || options.fresh;
+    const pending = skipPending ? null : loadPendingRun(pipeline.lang);
+    const resume =
+      pending && getPublishersToResume(pending, publishers).length > 0 ? pending : null;
+    if (options.resumeOnly && !resume) {
+      Logger.log(`No failed ${pipeline.label} posts to resume`);
+      return null;
+    }
+
+    const target = publishers.map((publisher) => publisher.name).join(', ');
+    Logger.log(`=== Starting ${pipeline.label} post to ${target}${mode} ===`);
+    report = publishSentence(pipeline, publishers, dryRun, resume, options.sentenceRef || null);
+    Logger.log(`=== ${pipeline.label} post to ${target}${mode} completed ===`);
+  } catch (error) {
+    Logger.log(`${pipeline.label} post${mode} error: ${error}`);
+    report = {
+      label: pipeline.label,
+      lang: pipeline.lang,
+      dryRun,
+      sentence: null,
+      results: publishers.map((publisher) => ({
+        account: publisher.name,
+        platform: publisher.platform,
+        success: false,
+      })),
+      error: String(error),
+    };
+  }
+
+  if (!dryRun) {
+    appendRunToPostLog(report);
+    recordRecentRun(report);
+    notifyRunReport(report);
+  }
+  return report;
+}
+
+// ============================================================================
+// Schedule Functions
+// ============================================================================
+
+const SCHEDULE_CONFIG_KEY = 'SCHEDULE_CONFIG';
+const SCHEDULE_STATE_KEY = 'SCHEDULE_STATE';
+const SCHEDULE_TRIGGER_IDS_KEY = 'SCHEDULE_TRIGGER_IDS';
+const SCHEDULE_ADJUST_HANDLER = 'adjustScheduledTriggers';
+// Runs shortly after midnight so a DST switch is picked up before that day's posts
+const SCHEDULE_ADJUST_HOUR = 1;
+
+const SCHEDULABLE_HANDLERS = [
+  'postJapanese',
+  'postEnglish',
+  'postToXJapanese',
+  'postToXEnglish',
+  'postToBlueskyJapanese',
+  'postToBlueskyEnglish',
+  'postToMastodonJapanese',
+  'postToMastodonEnglish',
+  'postToMisskeyJapanese',
+  'resumeJapanese',
+  'resumeEnglish',
+  'collectEngagementMetrics',
+  'collectSubmissions',
+  'postSubmissionRoundup',
+  'postWeeklyRecap',
+];
+
+// Intervals ClockTriggerBuilder.everyHours accepts
+const SCHEDULE_HOUR_INTERVALS = [1, 2, 4, 6, 8, 12];
+const WEEK_DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/**
+ * Schedule used when SCHEDULE_CONFIG is not set
+ */
+const DEFAULT_SCHEDULE: ScheduleEntry[] = [
+  { handler: 'postJapanese', timeZone: 'Asia/Tokyo', hour: 5, minute: 0, interval: 'daily' },
+  {
+    handler: 'postEnglish',
+    timeZone: 'America/New_York',
+    hour: 5,
+    minute: 0,
+    interval: 'daily',
+  },
+];
+
+/**
+ * True for IANA zone names the runtime knows
+ * Utilities.formatDate falls back to GMT for unknown zones, so it cannot be used to check
+ */
+function isValidTimeZone(timeZone: unknown): boolean {
+  if (typeof timeZone !== 'string' || !/^[A-Za-z]+(?:[/_+-][A-Za-z0-9]+)*$/.test(timeZone)) {
+    return false;
+  }
+  try {
+    return !!new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone;
+  } catch (error) {
+    return false;
+  }
+}
+
+function validateScheduleEntry(entry: unknown): string[] {
+  const errors: string[] = [];
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return ['entry is not an object'];
+  }
+  const fields = entry as Record<string, unknown>;
+  const { handler, timeZone, hour, minute, interval, weekDay, everyHours } = fields;
+
+  if (typeof handler !== 'string' || !SCHEDULABLE_HANDLERS.includes(handler)) {
+    errors.push(`unknown handler ${handler}`);
+  }
+  if (interval !== undefined && !['daily', 'weekly', 'hourly'].includes(String(interval))) {
+    errors.push('interval must be "daily", "weekly" or "hourly"');
+  }
+
+  if (interval === 'hourly') {
+    if (typeof everyHours !== 'number' || !SCHEDULE_HOUR_INTERVALS.includes(everyHours)) {
+      errors.push(`everyHours must be one of ${SCHEDULE_HOUR_INTERVALS.join(', ')}`);
+    }
+    return errors;
+  }
+
+  if (typeof hour !== 'number' || !Number.isInteger(hour) || hour < 0 || hour > 23) {
+    errors.push('hour must be an integer 0-23');
+  }
+  if (typeof minute !== 'number' || !Number.isInteger(minute) || minute < 0 || minute > 59) {
+    errors.push('minute must be an integer 0-59');
+  }
+  if (
+    interval === 'weekly' &&
+    (typeof weekDay !== 'number' || !Number.isInteger(weekDay) || weekDay < 0 || weekDay > 6)
+  ) {
+    errors.push('weekDay must be an integer 0-6 (0 = Sunday)');
+  }
+  if (!isValidTimeZone(timeZone)) {
+    errors.push(`unknown time zone ${timeZone}`);
+  }
+  return errors;
+}
+
+/**
+ * Load the schedule from SCHEDULE_CONFIG (a JSON array of ScheduleEntry)
+ * interval defaults to daily; hourly entries only need handler and everyHours
+ */
+function loadSchedule(): ScheduleEntry[] {
+  const stored = PropertiesService.getScriptProperties().getProperty(SCHEDULE_CONFIG_KEY);
+  if (!stored) {
+    return DEFAULT_SCHEDULE;
+  }
+
+  const entries = JSON.parse(stored);
+  if (!Array.isArray(entries)) {
+    throw new Error(`${SCHEDULE_CONFIG_KEY} must be a JSON array`);
+  }
+
+  const schedule: ScheduleEntry[] = [];
+  entries.forEach((entry, index) => {
+    const errors = validateScheduleEntry(entry);
+    if (errors.length > 0) {
+      Logger.log(`Skipping schedule #${index}: ${errors.join('; ')}`);
+      return;
+    }
+
+    const interval: ScheduleInterval = entry.interval || 'daily';
+    if (interval === 'hourly') {
+      schedule.push({
+        handler: entry.handler,
+        timeZone: Session.getScriptTimeZone(),
+        hour: 0,
+        minute: 0,
+        interval,
+        everyHours: entry.everyHours,
+      });
+      return;
+    }
+    schedule.push({
+      handler: entry.handler,
+      timeZone: entry.timeZone,
+      hour: entry.hour,
+      minute: entry.minute,
+      interval,
+      ...(interval === 'weekly' && { weekDay: entry.weekDay }),
+    });
+  });
+  return schedule;
+}
+
+/**
+ * Key of a daily or weekly entry in the schedule state
+ */
+function getScheduleStateKey(entry: ScheduleEntry): string {
+  const day = entry.interval === 'weekly' ? `#${entry.weekDay}` : '';
+  return `${entry.handler}@${entry.timeZone}${day}`;
+}
+
+/**
+ * UTC offset of timeZone at the given instant, in minutes (JST = 540)
+ */
+function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const offset = Utilities.formatDate(date, timeZone, 'Z');
+  const sign = offset.startsWith('-') ? -1 : 1;
+  return sign * (parseInt(offset.substring(1, 3), 10) * 60 + parseInt(offset.substring(3, 5), 10));
+}
+
+/**
+ * The instant at which the wall clock in timeZone shows the given date and time
+ * The offset is re-read at the result so dates on either side of a DST switch are exact
+ */
+function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClockUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const guessOffset = getTimeZoneOffsetMinutes(new Date(wallClockUtc), timeZone);
+  const firstGuess = wallClockUtc - guessOffset * 60000;
+  const offset = getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone);
+  return new Date(wallClockUtc - offset * 60000);
+}
+
+/**
+ * Local calendar date of an instant in timeZone, with its day of the week (0 = Sunday)
+ */
+function getZonedDate(
+  date: Date,
+  timeZone: string
+): { year: number; month: number; day: number; weekDay: number } {
+  const [year, month, day] = Utilities.formatDate(date, timeZone, 'yyyy-MM-dd')
+    .split('-')
+    .map((part) => parseInt(part, 10));
+  const weekDay = new Date(Date.UTC(year!, month! - 1, day!)).getUTCDay();
+  return { year: year!, month: month!, day: day!, weekDay };
+}
+
+/**
+ * Next instant (after now) at which a daily or weekly entry should fire
+ */
+function getNextFiringDate(entry: ScheduleEntry, now: Date = new Date()): Date {
+  for (let days = 0; days <= 7; days++) {
+    const local = getZonedDate(new Date(now.getTime() + days * DAY_MS), entry.timeZone);
+    if (entry.interval === 'weekly' && local.weekDay !== entry.weekDay) {
+      continue;
+    }
+    const { year, month, day } = local;
+    const firing = zonedTimeToDate(year, month, day, entry.hour, entry.minute, entry.timeZone);
+    if (firing.getTime() > now.getTime()) {
+      return firing;
+    }
+  }
+  throw new Error(`No firing time found for ${entry.handler}`);
+}
+
+/**
+ * Hour and minute in the script time zone (Asia/Tokyo) for the entry's next firing,
+ * plus the day of the week there for weekly entries
+ */
+function getScriptFiringTime(
+  entry: ScheduleEntry,
+  now: Date = new Date()
+): { hour: number; minute: number; weekDay?: number } {
+  const firing = getNextFiringDate(entry, now);
+  const scriptTimeZone = Session.getScriptTimeZone();
+  return {
+    hour: parseInt(Utilities.formatDate(firing, scriptTimeZone, 'H'), 10),
+    minute: parseInt(Utilities.formatDate(firing, scriptTimeZone, 'm'), 10),
+    ...(entry.interval === 'weekly' && {
+      weekDay: getZonedDate(firing, scriptTimeZone).weekDay,
+    }),
+  };
+}
+
+function formatFiringTime(time: { hour: number; minute: number; weekDay?: number }): string {
+  const clock = `${String(time.hour).padStart(2, '0')}:${String(time.minute).padStart(2, '0')}`;
+  return time.weekDay === undefined ? clock : `${WEEK_DAY_NAMES[time.weekDay]} ${clock}`;
+}
+
+function toScriptWeekDay(weekDay: number): GoogleAppsScript.Base.Weekday {
+  const { SUNDAY, MONDAY, TUESDAY, WEDNESDAY, THURSDAY, FRIDAY, SATURDAY } = ScriptApp.WeekDay;
+  return [SUNDAY, MONDAY, TUESDAY, WEDNESDAY, THURSDAY, FRIDAY, SATURDAY][weekDay]!;
+}
+
+/**
+ * Unique IDs of the triggers installScheduledTriggers created, or null before any were recorded
+ */
+function loadScheduledTriggerIds(): string[] | null {
+  const stored = PropertiesService.getScriptProperties().getProperty(SCHEDULE_TRIGGER_IDS_KEY);
+  if (!stored) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(stored) as string[];
+  } catch (error) {
+    Logger.log(`Schedule trigger IDs parse error: ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Installs from before trigger IDs were recorded are matched by the handlers in their state
+ */
+function isLegacyScheduledTrigger(trigger: GoogleAppsScript.Script.Trigger): boolean {
+  const stored = PropertiesService.getScriptProperties().getProperty(SCHEDULE_STATE_KEY);
+  if (!stored) {
+    return false;
+  }
+
+  const handler = trigger.getHandlerFunction();
+  let state: Record<string, string> = {};
+  try {
+    state = JSON.parse(stored);
+  } catch (error) {
+    Logger.log(`Schedule state parse error: ${error}`);
+  }
+  return (
+    handler === SCHEDULE_ADJUST_HANDLER ||
+    Object.keys(state).some((key) => key.split('@')[0] === handler)
+  );
+}
+
+/**
+ * Delete the triggers created by installScheduledTriggers
+ * Triggers made by hand, even for a schedulable handler, are left alone
+ */
+function removeScheduledTriggers(): void {
+  const properties = PropertiesService.getScriptProperties();
+  const ids = loadScheduledTriggerIds();
+
+  for (const trigger of ScriptApp.getProjectTriggers()) {
+    const installed = ids
+      ? ids.includes(trigger.getUniqueId())
+      : isLegacyScheduledTrigger(trigger);
+    if (installed) {
+      ScriptApp.deleteTrigger(trigger);
+      Logger.log(`Removed trigger: ${trigger.getHandlerFunction()}`);
+    }
+  }
+  properties.deleteProperty(SCHEDULE_STATE_KEY);
+  properties.deleteProperty(SCHEDULE_TRIGGER_IDS_KEY);
+}
+
+function createScheduledTrigger(
+  entry: ScheduleEntry,
+  time: { hour: number; minute: number; weekDay?: number } | null
+): GoogleAppsScript.Script.Trigger {
+  const builder = ScriptApp.newTrigger(entry.handler).timeBased();
+  if (entry.interval === 'hourly' || !time) {
+    return builder.everyHours(entry.everyHours || 1).create();
+  }
+
+  builder.atHour(time.hour).nearMinute(time.minute);
+  if (time.weekDay !== undefined) {
+    return builder.onWeekDay(toScriptWeekDay(time.weekDay)).create();
+  }
+  return builder.everyDays(1).create();
+}
+
+/**
+ * (Re)install the triggers from the schedule, converted to the script time zone,
+ * plus the daily check that moves them when a DST switch changes the conversion
+ */
+function installScheduledTriggers(): void {
+  const schedule = loadSchedule();
+  removeScheduledTriggers();
+
+  const state: Record<string, string> = {};
+  const triggerIds: string[] = [];
+  for (const entry of schedule) {
+    if (entry.interval === 'hourly') {
+      triggerIds.push(createScheduledTrigger(entry, null).getUniqueId());
+      Logger.log(`Installed ${entry.handler}: every ${entry.everyHours} hours`);
+      continue;
+    }
+
+    const time = getScriptFiringTime(entry);
+    triggerIds.push(createScheduledTrigger(entry, time).getUniqueId());
+    state[getScheduleStateKey(entry)] = formatFiringTime(time);
+    Logger.log(
+      `Installed ${entry.handler}: ${formatFiringTime(entry)} ${entry.timeZone} = ` +
+        `${formatFiringTime(time)} ${Session.getScriptTimeZone()}`
+    );
+  }
+
+  const adjustTrigger = ScriptApp.newTrigger(SCHEDULE_ADJUST_HANDLER)
+    .timeBased()
+    .atHour(SCHEDULE_ADJUST_HOUR)
+    .everyDays(1)
+    .create();
+  triggerIds.push(adjustTrigger.getUniqueId());
+
+  const properties = PropertiesService.getScriptProperties();
+  properties.setProperty(SCHEDULE_STATE_KEY, JSON.stringify(state));
+  properties.setProperty(SCHEDULE_TRIGGER_IDS_KEY, JSON.stringify(triggerIds));
+}
+
+/**
+ * Daily trigger: reinstall the schedule when a DST switch moved any firing time
+ */
+function adjustScheduledTriggers(): void {
+  let installed: Record<string, string> = {};
+  try {
+    installed = JSON.parse(
+      PropertiesService.getScriptProperties().getProperty(SCHEDULE_STATE_KEY) || '{}'
+    );
+  } catch (error) {
+    Logger.log(`Schedule state parse error: ${error}`);
+  }
+
+  const changed = loadSchedule().filter(
+    (entry) =>
+      entry.interval !== 'hourly' &&
+      installed[getScheduleStateKey(entry)] !== formatFiringTime(getScriptFiringTime(entry))
+  );
+  if (changed.length === 0) {
+    Logger.log('Scheduled triggers are up to date');
+    return;
+  }
+
+  Logger.log(`Firing time changed for ${changed.map((entry) => entry.handler).join(', ')}`);
+  installScheduledTriggers();
+}
+
+/**
+ * Log the installed triggers and the firing times the schedule currently calls for
+ */
+function listScheduledTriggers(): void {
+  for (const trigger of ScriptApp.getProjectTriggers()) {
+    Logger.log(`Trigger: ${trigger.getHandlerFunction()} (${trigger.getEventType()})`);
+  }
+  for (const entry of loadSchedule()) {
+    if (entry.interval === 'hourly') {
+      Logger.log(`Schedule: ${entry.handler} every ${entry.everyHours} hours`);
+      continue;
+    }
+    const time = getScriptFiringTime(entry);
+    Logger.log(
+      `Schedule: ${entry.handler} at ${formatFiringTime(entry)} ${entry.timeZone} = ` +
+        `${formatFiringTime(time)} ${Session.getScriptTimeZone()}`
+    );
+  }
+}
+
+// ============================================================================
+// Dashboard Functions
+// ============================================================================
+
+const RECENT_RUNS_KEY = 'RECENT_RUNS';
+const RECENT_RUNS_MAX = 20;
+const DASHBOARD_PLATFORMS: Platform[] = ['x', 'bluesky', 'mastodon', 'misskey'];
+const DASHBOARD_TOKEN_SECRET_KEY = 'DASHBOARD_TOKEN_SECRET';
+const DASHBOARD_TOKEN_MAX_AGE_MS = 60 * 60 * 1000;
+
+function loadRecentRuns(): RunSummary[] {
+  const stored = PropertiesService.getScriptProperties().getProperty(RECENT_RUNS_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(stored) as RunSummary[];
+  } catch (error) {
+    Logger.log(`Recent runs parse error: ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Keep a short summary of each run for the dashboard, newest first
+ * Recording problems are reported but never fail the run
+ */
+function recordRecentRun(report: RunReport, runAt: Date = new Date()): void {
+  try {
+    const sentence = report.sentence;
+    const summary: RunSummary = {
+      runAt: runAt.toISOString(),
+      label: report.label,
+      lang: report.lang,
+      resumed: !!report.resumed,
+      sentence: sentence
+        ? `${sentence.title} / ${sentence.author} (${sentence.book_id}/${sentence.sentence_id})`
+        : '',
+      error: (report.error || '').substring(0, NOTIFY_EXCERPT_LENGTH),
+      results: report.results.map((result) => ({
+        account: result.account,
+        platform: result.platform,
+        status: getResultStatus(result),
+        permalink: result.post ? result.post.permalink : '',
+        error: (result.error || '').substring(0, NOTIFY_EXCERPT_LENGTH),
+      })),
+    };
+
+    const runs = [summary, ...loadRecentRuns()].slice(0, RECENT_RUNS_MAX);
+    // Runs with long errors are large, so the oldest also drop off to stay within 9KB
+    PropertiesService.getScriptProperties().setProperty(
+      RECENT_RUNS_KEY,
+      serializeWithinPropertyLimit(runs, 'end')
+    );
+  } catch (error) {
+    Logger.log(`Recent runs error: ${error}`);
+  }
+}
+
+/**
+ * Compare secrets without returning early on the first differing character
+ */
+function secretsMatch(given: string, expected: string): boolean {
+  let difference = given.length ^ expected.length;
+  for (let index = 0; index < expected.length; index++) {
+    difference |= (given.charCodeAt(index) || 0) ^ expected.charCodeAt(index);
+  }
+  return difference === 0;
+}
+
+/**
+ * A request is allowed with the shared secret or from an allowed Google account
+ * DASHBOARD_SECRET: value of the `key` parameter
+ * DASHBOARD_ALLOWED_USERS: comma-separated emails (the web app must require sign-in);
+ * a web app that executes as the owner gets an empty email for consumer accounts and
+ * accounts outside the owner's Workspace domain, so those users need DASHBOARD_SECRET
+ * With neither set, every request is refused
+ */
+function isDashboardAuthorized(key: string | undefined): boolean {
+  const properties = PropertiesService.getScriptProperties();
+  const secret = properties.getProperty('DASHBOARD_SECRET');
+  if (secret && key && secretsMatch(key, secret)) {
+    return true;
+  }
+
+  const allowedUsers = splitPropertyList(properties.getProperty('DASHBOARD_ALLOWED_USERS')).map(
+    (email) => email.toLowerCase()
+  );
+  if (allowedUsers.length === 0) {
+    return false;
+  }
+  const email = Session.getActiveUser().getEmail().toLowerCase();
+  return !!email && allowedUsers.includes(email);
+}
+
+/**
+ * Refusal page, explaining when the allow-list could not be checked at all
+ */
+function renderNotAuthorized(): string {
+  const allowedUsers = PropertiesService.getScriptProperties().getProperty(
+    'DASHBOARD_ALLOWED_USERS'
+  );
+  if (splitPropertyList(allowedUsers).length === 0 || Session.getActiveUser().getEmail()) {
+    return '<p>Not authorized</p>';
+  }
+
+  const message =
+    'Apps Script did not report the signed-in account, so DASHBOARD_ALLOWED_USERS ' +
+    'cannot be checked. Add ?key=<DASHBOARD_SECRET> to the dashboard URL instead.';
+  Logger.log(`Dashboard refused: ${message}`);
+  return `<p>Not authorized</p><p class="error">${escapeHtml(message)}</p>`;
+}
+
+/**
+ * HMAC of the signed-in user and issue time under a secret created on first use
+ */
+function signDashboardToken(issuedAt: number): string {
+  const properties = PropertiesService.getScriptProperties();
+  let secret = properties.getProperty(DASHBOARD_TOKEN_SECRET_KEY);
+  if (!secret) {
+    secret = Utilities.getUuid();
+    properties.setProperty(DASHBOARD_TOKEN_SECRET_KEY, secret);
+  }
+
+  const user = Session.getActiveUser().getEmail().toLowerCase();
+  const signature = Utilities.computeHmacSignature(
+    Utilities.MacAlgorithm.HMAC_SHA_256,
+    `${user}:${issuedAt}`,
+    secret
+  );
+  return `${issuedAt}.${Utilities.base64Encode(signature)}`;
+}
+
+/**
+ * Per-form token so another site cannot make a signed-in user's browser post
+ */
+function createDashboardToken(now: number = Date.now()): string {
+  return signDashboardToken(now);
+}
+
+function isDashboardTokenValid(token: string | undefined, now: number = Date.now()): boolean {
+  const issuedAt = Number((token || '').split('.')[0]);
+  if (!token || !Number.isInteger(issuedAt) || now - issuedAt > DASHBOARD_TOKEN_MAX_AGE_MS) {
+    return false;
+  }
+  return secretsMatch(token, signDashboardToken(issuedAt));
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderRunSummary(run: RunSummary): string {
+  const results = run.results
+    .map((result) => {
+      const link = result.permalink
+        ? ` <a href="${escapeHtml(result.permalink)}" target="_blank">view</a>`
+        : '';
+      const error = result.error ? ` <small>${escapeHtml(result.error)}</small>` : '';
+      const account = `${escapeHtml(result.account)} (${escapeHtml(result.platform)})`;
+      return `<li>${account}: ${escapeHtml(result.status)}${link}${error}</li>`;
+    })
+    .join('');
+  const error = run.error ? `<p class="error">${escapeHtml(run.error)}</p>` : '';
+
+  return [
+    '<tr>',
+    `<td>${escapeHtml(run.runAt)}</td>`,
+    `<td>${escapeHtml(run.label)}${run.resumed ? ' (resumed)' : ''}</td>`,
+    `<td>${escapeHtml(run.sentence)}${error}</td>`,
+    `<td><ul>${results}</ul></td>`,
+    '</tr>',
+  ].join('');
+}
+
+/**
+ * Result block for a run started from the dashboard, including dry run payloads
+ */
+function renderRunReport(report: RunReport): string {
+  const summary: RunSummary = {
+    runAt: new Date().toISOString(),
+    label: report.dryRun ? `${report.label} dry run` : report.label,
+    lang: report.lang,
+    resumed: !!report.resumed,
+    sentence: report.sentence
+      ? `${report.sentence.title} / ${report.sentence.author} ` +
+        `(${report.sentence.book_id}/${report.sentence.sentence_id})`
+      : '',
+    error: report.error || '',
+    results: report.results.map((result) => ({
+      account: result.account,
+      platform: result.platform,
+      status: report.dryRun && result.success ? 'valid' : getResultStatus(result),
+      permalink: result.post ? result.post.permalink : '',
+      error: result.error || '',
+    })),
+  };
+
+  const previews = report.results
+    .filter((result) => result.preview)
+    .map(
+      (result) =>
+        `<h3>${escapeHtml(result.account)}</h3>` +
+        `<pre>${escapeHtml(JSON.stringify(result.preview!.payload, null, 2))}</pre>`
+    )
+    .join('');
+  return `<h2>Result</h2><table>${renderRunSummary(summary)}</table>${previews}`;
+}
+
+/**
+ * Note for each language with a partly failed run that "Resume" would retry
+ */
+function renderPendingRuns(): string {
+  return (['ja', 'en'] as Language[])
+    .map((lang) => loadPendingRun(lang))
+    .filter((run): run is PendingRun => run !== null)
+    .map((run) => {
+      const failed = Object.keys(run.accounts).filter(
+        (name) => run.accounts[name]!.status === 'failed'
+      );
+      return (
+        `<p>Pending ${run.lang} run: ${escapeHtml(run.sentence.title)} ` +
+        `failed on ${escapeHtml(failed.join(', '))}</p>`
+      );
+    })
+    .join('');
+}
+
+function renderDashboard(key: string, resultHtml: string = ''): string {
+  const url = escapeHtml(ScriptApp.getService().getUrl());
+  const keyField =
+    `<input type="hidden" name="key" value="${escapeHtml(key)}">` +
+    `<input type="hidden" name="token" value="${escapeHtml(createDashboardToken())}">`;
+  const platformFields = DASHBOARD_PLATFORMS.map(
+    (platform) =>
+      `<label><input type="checkbox" name="platform" value="${platform}" checked>` +
+      `${platform}</label>`
+  ).join(' ');
+  const langField =
+    '<select name="lang"><option value="ja">Japanese</option>' +
+    '<option value="en">English</option></select>';
+  const runs = loadRecentRuns().map(renderRunSummary).join('');
+
+  return [
+    '<!DOCTYPE html><html><head><meta charset="utf-8"><title>Random Shosha Bot</title>',
+    '<style>body{font-family:sans-serif;margin:1.5em}table{border-collapse:collapse}',
+    'td{border:1px solid #ccc;padding:4px;vertical-align:top}.error{color:#b00}',
+    'form{margin:0.5em 0}</style></head><body>',
+    '<h1>Random Shosha Bot</h1>',
+    resultHtml,
+    '<h2>Post now</h2>',
+    renderPendingRuns(),
+    `<form method="post" action="${url}" target="_top">${keyField}${langField} `,
+    `${platformFields} <button name="action" value="post">Post a new sentence</button> `,
+    '<button name="action" value="resume">Resume failed posts</button> ',
+    '<button name="action" value="dry_run">Dry run</button></form>',
+    '<h2>Re-post a sentence</h2>',
+    '<p><small>Needs SENTENCE_LOOKUP_URL_JA / SENTENCE_LOOKUP_URL_EN.</small></p>',
+    `<form method="post" action="${url}" target="_top">${keyField}${langField} `,
+    '<input name="book_id" placeholder="book_id" required> ',
+    '<input name="sentence_id" placeholder="sentence_id" required> ',
+    `${platformFields} <button name="action" value="repost">Re-post</button></form>`,
+    '<h2>Recent runs</h2>',
+    runs ? `<table>${runs}</table>` : '<p>No runs recorded yet.</p>',
+    '</body></html>',
+  ].join('');
+}
+
+function createDashboardOutput(html: string): GoogleAppsScript.HTML.HtmlOutput {
+  return HtmlService.createHtmlOutput(html).setTitle('Random Shosha Bot');
+}
+
+/**
+ * Run the action posted from the dashboard; invalid input is rejected before any run
+ */
+function handleDashboardAction(
+  parameter: Record<string, string>,
+  parameters: Record<string, string[]>
+): RunReport {
+  const lang = parameter.lang;
+  if (lang !== 'ja' && lang !== 'en') {
+    throw new Error(`Unknown language: ${lang}`);
+  }
+  const platforms = (parameters.platform || []).filter((platform): platform is Platform =>
+    DASHBOARD_PLATFORMS.includes(platform as Platform)
+  );
+  if (platforms.length === 0) {
+    throw new Error('Select at least one platform');
+  }
+
+  const options: RunOptions = { platforms };
+  const action = parameter.action;
+  if (action === 'post') {
+    // Resuming a pending run is its own button, never a side effect of posting
+    options.fresh = true;
+  } else if (action === 'resume') {
+    options.resumeOnly = true;
+  } else if (action === 'dry_run') {
+    options.dryRun = true;
+  } else if (action === 'repost') {
+    const bookId = (parameter.book_id || '').trim();
+    const sentenceId = Number(parameter.sentence_id);
+    if (!bookId || !Number.isInteger(sentenceId) || sentenceId < 0) {
+      throw new Error('Re-post needs a book_id and an integer sentence_id');
+    }
+    options.sentenceRef = { book_id: bookId, sentence_id: sentenceId };
+    if (!getSentenceLookupUrl(lang, options.sentenceRef)) {
+      throw new Error(`Re-posting needs SENTENCE_LOOKUP_URL_${lang.toUpperCase()}`);
+    }
+  } else {
+    throw new Error(`Unknown action: ${action}`);
+  }
+
+  Logger.log(`Dashboard ${action}: ${lang} ${platforms.join(', ')}`);
+  const report =
+    lang === 'ja' ? runPost(JAPANESE_PIPELINE, options) : runPost(ENGLISH_PIPELINE, options);
+  if (!report) {
+    throw new Error(`No failed ${lang} posts to resume`);
+  }
+  return report;
+}
+
+// ============================================================================
+// Metrics Functions
+// ============================================================================
+
+const METRICS_SHEET_NAME = 'Metrics';
+const METRICS_HEADERS = [
+  'collected_at',
+  'lang',
+  'book_id',
+  'sentence_id',
+  'title',
+  'author',
+  'account',
+  'post_id',
+  'likes',
+  'reposts',
+  'replies',
+  'quotes',
+  'impressions',
+];
+const METRICS_SUMMARY_SHEET_NAME = 'MetricsSummary';
+const METRICS_SUMMARY_HEADERS = [
+  'dimension',
+  'key',
+  'posts',
+  'likes',
+  'reposts',
+  'replies',
+  'quotes',
+  'engagement',
+  'engagement_per_post',
+];
+const BLUESKY_PUBLIC_API_BASE = 'https://public.api.bsky.app/xrpc';
+const BLUESKY_GET_POSTS_LIMIT = 25;
+const X_TWEET_LOOKUP_URL = 'https://api.twitter.com/2/tweets';
+const X_TWEET_LOOKUP_LIMIT = 100;
+
+/**
+ * METRICS_WINDOW_DAYS: posts younger than this are re-collected on every run (default 14)
+ */
+function getMetricsWindowMs(): number {
+  const properties = PropertiesService.getScriptProperties();
+  const days = parseFloat(properties.getProperty('METRICS_WINDOW_DAYS') || '');
+  return (days > 0 ? days : 14) * DAY_MS;
+}
+
+/**
+ * Sheets turns ISO timestamps into Date values when reading them back
+ */
+function toIsoString(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value || '');
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+/**
+ * Successful X and Bluesky posts from the post log within the window (default: metrics window)
+ * Rows are matched to registry accounts by name and language
+ */
+function loadTrackedPosts(
+  sheet: GoogleAppsScript.Spreadsheet.Sheet,
+  now: Date = new Date(),
+  windowMs: number = getMetricsWindowMs()
+): TrackedPost[] {
+  const accounts = loadAccountRegistry();
+  const column = (name: string): number => POST_LOG_HEADERS.indexOf(name);
+
+  const range = sheet.getDataRange();
+  // post_id is read as displayed: a tweet ID that Sheets turned into a number shows as 1.8E+18
+  const displayed = range.getDisplayValues();
+  const posts: TrackedPost[] = [];
+  range.getValues().forEach((row, index) => {
+    if (index === 0) {
+      return;
+    }
+    const lang = row[column('lang')];
+    const postedAt = toIsoString(row[column('posted_at')]);
+    const postId = displayed[index]![column('post_id')]!.trim();
+    if (row[column('status')] !== 'success' || !postId || (lang !== 'ja' && lang !== 'en')) {
+      return;
+    }
+    if (now.getTime() - new Date(postedAt).getTime() > windowMs) {
+      return;
+    }
+
+    // Rows logged before the platform column was added only carry the account name
+    const platform = row[column('platform')];
+    const account = accounts.find(
+      (candidate) =>
+        candidate.name === row[column('account')] &&
+        (!platform || candidate.platform === platform) &&
+        candidate.languages.includes(lang) &&
+        (candidate.platform === 'x' || candidate.platform === 'bluesky')
+    );
+    if (!account) {
+      return;
+    }
+    if (account.platform === 'x' && !/^\d+$/.test(postId)) {
+      Logger.log(`Skipping ${account.name} post ${postId}: not a tweet ID`);
+      return;
+    }
+    posts.push({
+      lang,
+      book_id: String(row[column('book_id')]),
+      sentence_id: Number(row[column('sentence_id')]),
+      title: String(row[column('title')]),
+      author: String(row[column('author')]),
+      account,
+      postId,
+      postedAt,
+    });
+  });
+  return posts;
+}
+
+/**
+ * Like/repost/reply/quote counts from the public AppView, keyed by at:// URI
+ */
+function fetchBlueskyPostMetrics(uris: string[]): Record<string, EngagementCounts> {
+  const metrics: Record<string, EngagementCounts> = {};
+  for (const batch of chunk(uris, BLUESKY_GET_POSTS_LIMIT)) {
+    const query = batch.map((uri) => `uris=${encodeURIComponent(uri)}`).join('&');
+    const result = fetchWithRetry(
+      'Bluesky getPosts',
+      `${BLUESKY_PUBLIC_API_BASE}/app.bsky.feed.getPosts?${query}`
+    );
+    if (!result.ok) {
+      continue;
+    }
+
+    try {
+      for (const post of JSON.parse(result.response.getContentText()).posts || []) {
+        metrics[post.uri] = {
+          likes: post.likeCount || 0,
+          reposts: post.repostCount || 0,
+          replies: post.replyCount || 0,
+          quotes: post.quoteCount || 0,
+          impressions: null,
+        };
+      }
+    } catch (error) {
+      Logger.log(`Bluesky getPosts parse error: ${error}`);
+    }
+  }
+  return metrics;
+}
+
+/**
+ * Public metrics for tweets of one account, keyed by tweet ID
+ * The query parameters are part of the OAuth 1.0a signature
+ */
+function fetchXPostMetrics(
+  ids: string[],
+  credentials: XCredentials
+): Record<string, EngagementCounts> {
+  const metrics: Record<string, EngagementCounts> = {};
+  for (const batch of chunk(ids, X_TWEET_LOOKUP_LIMIT)) {
+    const params = { ids: batch.join(','), 'tweet.fields': 'public_metrics' };
+    const query = Object.keys(params)
+      .map((key) => `${percentEncode(key)}=${percentEncode(params[key as keyof typeof params])}`)
+      .join('&');
+    const result = fetchWithRetry('X tweet lookup', `${X_TWEET_LOOKUP_URL}?${query}`, () => ({
+      method: 'get',
+      headers: {
+        Authorization: generateOAuthHeader('GET', X_TWEET_LOOKUP_URL, params, credentials),
+      },
+    }));
+    if (!result.ok) {
+      continue;
+    }
+
+    try {
+      for (const tweet of JSON.parse(result.response.getContentText()).data || []) {
+        const counts = tweet.public_metrics || {};
+        metrics[tweet.id] = {
+          likes: counts.like_count || 0,
+          reposts: counts.retweet_count || 0,
+          replies: counts.reply_count || 0,
+          quotes: counts.quote_count || 0,
+          impressions: typeof counts.impression_count === 'number' ? counts.impression_count : null,
+        };
+      }
+    } catch (error) {
+      Logger.log(`X tweet lookup parse error: ${error}`);
+    }
+  }
+  return metrics;
+}
+
+/**
+ * Fetch current counts for every tracked post, one batch per platform account
+ */
+function collectSnapshots(posts: TrackedPost[], collectedAt: Date): MetricsSnapshot[] {
+  const snapshots: MetricsSnapshot[] = [];
+  const accountNames = posts
+    .map((post) => `${post.account.platform}:${post.account.name}`)
+    .filter((name, index, names) => names.indexOf(name) === index);
+
+  for (const accountName of accountNames) {
+    const accountPosts = posts.filter(
+      (post) => `${post.account.platform}:${post.account.name}` === accountName
+    );
+    const account = accountPosts[0]!.account;
+    const ids = accountPosts.map((post) => post.postId);
+    const metrics =
+      account.platform === 'x'
+        ? fetchXPostMetrics(ids, loadXCredentials(account))
+        : fetchBlueskyPostMetrics(ids);
+
+    for (const post of accountPosts) {
+      const counts = metrics[post.postId];
+      if (!counts) {
+        Logger.log(`No metrics for ${account.name} post ${post.postId}`);
+        continue;
+      }
+      snapshots.push({
+        collectedAt: collectedAt.toISOString(),
+        lang: post.lang,
+        book_id: post.book_id,
+        sentence_id: post.sentence_id,
+        title: post.title,
+        author: post.author,
+        account: account.name,
+        postId: post.postId,
+        ...counts,
+      });
+    }
+  }
+  return snapshots;
+}
+
+function readSnapshots(sheet: GoogleAppsScript.Spreadsheet.Sheet): MetricsSnapshot[] {
+  const range = sheet.getDataRange();
+  const displayed = range.getDisplayValues();
+  return range
+    .getValues()
+    .map((row, index) => ({
+      collectedAt: toIsoString(row[0]),
+      lang: row[1] as Language,
+      book_id: String(row[2]),
+      sentence_id: Number(row[3]),
+      title: String(row[4]),
+      author: String(row[5]),
+      account: String(row[6]),
+      postId: displayed[index]![7]!,
+      likes: Number(row[8]) || 0,
+      reposts: Number(row[9]) || 0,
+      replies: Number(row[10]) || 0,
+      quotes: Number(row[11]) || 0,
+      impressions: row[12] === '' ? null : Number(row[12]),
+    }))
+    .slice(1);
+}
+
+/**
+ * Most recent snapshot of every post, keyed by account name and post ID
+ */
+function getLatestSnapshots(snapshots: MetricsSnapshot[]): Record<string, MetricsSnapshot> {
+  const latest: Record<string, MetricsSnapshot> = {};
+  for (const snapshot of snapshots) {
+    const key = `${snapshot.account}:${snapshot.postId}`;
+    const current = latest[key];
+    if (!current || current.collectedAt < snapshot.collectedAt) {
+      latest[key] = snapshot;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Sum the latest snapshot of every post by book, author and language
+ * Sorted by engagement per post within each dimension
+ */
+function aggregateEngagement(snapshots: MetricsSnapshot[]): EngagementAggregate[] {
+  const aggregates: Record<string, EngagementAggregate> = {};
+  for (const snapshot of Object.values(getLatestSnapshots(snapshots))) {
+    const keys: Array<[EngagementAggregate['dimension'], string]> = [
+      ['book', `${snapshot.title} (${snapshot.book_id})`],
+      ['author', snapshot.author],
+      ['lang', snapshot.lang],
+    ];
+    for (const [dimension, key] of keys) {
+      const id = `${dimension}:${key}`;
+      const aggregate = (aggregates[id] = aggregates[id] || {
+        dimension,
+        key,
+        posts: 0,
+        likes: 0,
+        reposts: 0,
+        replies: 0,
+        quotes: 0,
+      });
+      aggregate.posts += 1;
+      aggregate.likes += snapshot.likes;
+      aggregate.reposts += snapshot.reposts;
+      aggregate.replies += snapshot.replies;
+      aggregate.quotes += snapshot.quotes;
+    }
+  }
+
+  const order = ['book', 'author', 'lang'];
+  return Object.values(aggregates).sort(
+    (a, b) =>
+      order.indexOf(a.dimension) - order.indexOf(b.dimension) ||
+      getEngagement(b) / b.posts - getEngagement(a) / a.posts
+  );
+}
+
+function getEngagement(counts: EngagementCounts | EngagementAggregate): number {
+  return counts.likes + counts.reposts + counts.replies + counts.quotes;
+}
+
+function writeEngagementSummary(aggregates: EngagementAggregate[]): void {
+  const sheet = getLogSheet(METRICS_SUMMARY_SHEET_NAME, METRICS_SUMMARY_HEADERS);
+  if (!sheet) {
+    return;
+  }
+
+  const rows = aggregates.map((aggregate) => {
+    const engagement = getEngagement(aggregate);
+    return [
+      aggregate.dimension,
+      aggregate.key,
+      aggregate.posts,
+      aggregate.likes,
+      aggregate.reposts,
+      aggregate.replies,
+      aggregate.quotes,
+      engagement,
+      Math.round((engagement / aggregate.posts) * 100) / 100,
+    ];
+  });
+
+  sheet.clearContents();
+  sheet
+    .getRange(1, 1, rows.length + 1, METRICS_SUMMARY_HEADERS.length)
+    .setValues([METRICS_SUMMARY_HEADERS, ...rows]);
+}
+
+// ============================================================================
+// Submission Functions
+// ============================================================================
+
+const SUBMISSIONS_LAST_ROUNDUP_KEY_PREFIX = 'SUBMISSIONS_LAST_ROUNDUP_';
+// The sheet is the only record of submissions, so it is never truncated
+const SUBMISSIONS_SHEET_NAME = 'Submissions';
+const SUBMISSIONS_HEADERS = [
+  'indexed_at',
+  'lang',
+  'tag',
+  'handle',
+  'did',
+  'uri',
+  'cid',
+  'permalink',
+  'liked',
+  'reposted',
+];
+const SUBMISSIONS_SEARCH_LIMIT = 100;
+const ROUNDUP_INTERVAL_DAYS = 7;
+
+/**
+ * Read submission settings from Script Properties
+ * SUBMISSIONS_ACCOUNT: Bluesky account name to search and act from (default: first enabled)
+ * SUBMISSIONS_WINDOW_DAYS: how long a posted sentence's tag is searched (default 7)
+ * SUBMISSIONS_AUTO_LIKE / SUBMISSIONS_AUTO_REPOST: 'true' to like / repost new submissions
+ */
+function getSubmissionsConfig(): {
+  account: AccountConfig | null;
+  windowDays: number;
+  autoLike: boolean;
+  autoRepost: boolean;
+} {
+  const properties = PropertiesService.getScriptProperties();
+  const accountName = properties.getProperty('SUBMISSIONS_ACCOUNT');
+  const account =
+    loadAccountRegistry().find(
+      (candidate) =>
+        candidate.platform === 'bluesky' &&
+        candidate.enabled &&
+        (!accountName || candidate.name === accountName)
+    ) || null;
+  const windowDays = parseFloat(properties.getProperty('SUBMISSIONS_WINDOW_DAYS') || '');
+
+  return {
+    account,
+    windowDays: windowDays > 0 ? windowDays : 7,
+    autoLike: properties.getProperty('SUBMISSIONS_AUTO_LIKE') === 'true',
+    autoRepost: properties.getProperty('SUBMISSIONS_AUTO_REPOST') === 'true',
+  };
+}
+
+function getSubmissionsSheet(): GoogleAppsScript.Spreadsheet.Sheet | null {
+  return getLogSheet(SUBMISSIONS_SHEET_NAME, SUBMISSIONS_HEADERS);
+}
+
+function loadSubmissions(sheet: GoogleAppsScript.Spreadsheet.Sheet): Submission[] {
+  const column = (name: string): number => SUBMISSIONS_HEADERS.indexOf(name);
+
+  return sheet
+    .getDataRange()
+    .getValues()
+    .slice(1)
+    .map((row) => ({
+      uri: String(row[column('uri')]),
+      cid: String(row[column('cid')]),
+      did: String(row[column('did')]),
+      handle: String(row[column('handle')]),
+      tag: String(row[column('tag')]),
+      lang: row[column('lang')] as Language,
+      indexedAt: toIsoString(row[column('indexed_at')]),
+      liked: row[column('liked')] === true,
+      reposted: row[column('reposted')] === true,
+    }));
+}
+
+/**
+ * Record new submissions before acting on them, so a failed run never likes one twice
+ * Returns the sheet row of the first one
+ */
+function appendSubmissions(
+  sheet: GoogleAppsScript.Spreadsheet.Sheet,
+  submissions: Submission[]
+): number {
+  const firstRow = sheet.getLastRow() + 1;
+  const rows = submissions.map((submission) => [
+    submission.indexedAt,
+    submission.lang,
+    submission.tag,
+    submission.handle,
+    submission.did,
+    submission.uri,
+    submission.cid,
+    getBlueskyPermalink(submission.uri),
+    submission.liked,
+    submission.reposted,
+  ]);
+  sheet.getRange(firstRow, 1, rows.length, SUBMISSIONS_HEADERS.length).setValues(rows);
+  return firstRow;
+}
+
+function updateSubmissionActions(
+  sheet: GoogleAppsScript.Spreadsheet.Sheet,
+  firstRow: number,
+  submissions: Submission[]
+): void {
+  const rows = submissions.map((submission) => [submission.liked, submission.reposted]);
+  const column = SUBMISSIONS_HEADERS.indexOf('liked') + 1;
+  sheet.getRange(firstRow, column, rows.length, 2).setValues(rows);
+}
+
+/**
+ * True when the post carries at least one image, directly or next to a quote
+ */
+function hasImageEmbed(post: any): boolean {
+  const embed = post.embed || {};
+  const media = embed.$type === 'app.bsky.embed.recordWithMedia#view' ? embed.media || {} : embed;
+  return media.$type === 'app.bsky.embed.images#view' && (media.images || []).length > 0;
+}
+
+/**
+ * Search posts carrying a sentence tag since the sentence was posted
+ * Returns only image posts from other accounts
+ */
+function searchTaggedImagePosts(
+  tag: string,
+  since: string,
+  session: BlueskySession
+): any[] | null {
+  const query = [
+    `q=${encodeURIComponent(`#${tag}`)}`,
+    `tag=${encodeURIComponent(tag)}`,
+    `since=${encodeURIComponent(since)}`,
+    'sort=latest',
+    `limit=${SUBMISSIONS_SEARCH_LIMIT}`,
+  ].join('&');
+  const result = fetchWithRetry(
+    `Bluesky search #${tag}`,
+    `${BLUESKY_API_BASE}/app.bsky.feed.searchPosts?${query}`,
+    { headers: { Authorization: `Bearer ${session.accessJwt}` } }
+  );
+  if (!result.ok) {
+    return null;
+  }
+
+  try {
+    const posts: any[] = JSON.parse(result.response.getContentText()).posts || [];
+    return posts.filter((post) => post.author.did !== session.did && hasImageEmbed(post));
+  } catch (error) {
+    Logger.log(`Bluesky search #${tag} parse error: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Like or repost a submission from the bot account
+ */
+function createBlueskySubjectRecord(
+  type: 'app.bsky.feed.like' | 'app.bsky.feed.repost',
+  submission: Submission,
+  session: BlueskySession,
+  credentials: BlueskyCredentials
+): BlueskyOutcome<PostOutcome> {
+  const record = {
+    $type: type,
+    subject: { uri: submission.uri, cid: submission.cid },
+    createdAt: new Date().toISOString(),
+  };
+  const label = `Bluesky ${type === 'app.bsky.feed.like' ? 'like' : 'repost'}`;
+  return createBlueskyRecord(record, session, credentials, label);
 }
 
 /**
- * Upload blob to Bluesky
+ * Text for the weekly roundup of one language's submissions, from the roundup template
+ * Mentions that would overflow the Bluesky limit are summarised as a count
  */
-function uploadBlobToBluesky(
-  imageUrl: string,
-  accessJwt: string
-): any | null {
-  try {
-    // Download image
-    const imageResponse = UrlFetchApp.fetch(imageUrl, { muteHttpExceptions: true });
-    const imageBlob = imageResponse.getBlob();
-    const mimeType = imageBlob.getContentType() || 'image/jpeg';
+function buildRoundupText(submissions: Submission[], lang: Language): string {
+  const handles = submissions
+    .map((submission) => submission.handle)
+    .filter((handle, index, all) => all.indexOf(handle) === index);
+  const template = loadTemplate(lang, 'roundup');
+  const render = (mentions: string): string =>
+    renderTemplate(template, {
+      count: String(submissions.length),
+      people: String(handles.length),
+      mentions,
+      hashtags: getMainHashtag(lang),
+    });
 
-    Logger.log(`Downloading image: ${imageUrl}, MIME: ${mimeType}`);
+  const mentions: string[] = [];
+  for (const [index, handle] of handles.entries()) {
+    const remaining = handles.length - index - 1;
+    const overflow = remaining > 0 ? ` +${remaining}` : '';
+    const candidate = render([...mentions, `@${handle}`].join(' ') + overflow);
+    if (countBlueskyLength(candidate) > BLUESKY_MAX_GRAPHEMES) {
+      const rest = handles.length - mentions.length;
+      return render(`${mentions.join(' ')} +${rest}`.trim());
+    }
+    mentions.push(`@${handle}`);
+  }
+  return render(mentions.join(' '));
+}
 
-    // Upload to Bluesky
-    const uploadUrl = `${BLUESKY_API_BASE}/com.atproto.repo.uploadBlob`;
+// ============================================================================
+// Recap Functions
+// ============================================================================
 
-    const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
-      method: 'post',
-      headers: {
-        'Content-Type': mimeType,
-        Authorization: `Bearer ${accessJwt}`,
-      },
-      payload: imageBlob.getBytes(),
-      muteHttpExceptions: true,
-    };
+const RECAP_STATE_KEY = 'RECAP_STATE';
+const RECAP_INTERVAL_DAYS = 7;
 
-    const uploadResponse = UrlFetchApp.fetch(uploadUrl, options);
-    const uploadCode = uploadResponse.getResponseCode();
+/**
+ * RECAP_TOP_N: how many prompts per language each account quotes (default 1)
+ */
+function getRecapTopN(): number {
+  const topN = parseInt(PropertiesService.getScriptProperties().getProperty('RECAP_TOP_N') || '');
+  return topN > 0 ? topN : 1;
+}
 
-    if (uploadCode === 200) {
-      const data = JSON.parse(uploadResponse.getContentText());
-      Logger.log(`Blob uploaded successfully: ${JSON.stringify(data.blob)}`);
-      return data.blob;
-    } else {
-      Logger.log(`Blob upload failed (${uploadCode}): ${uploadResponse.getContentText()}`);
-      return null;
-    }
+/**
+ * Recap progress keyed by account name and language, e.g. "X:ja"
+ */
+function loadRecapState(): Record<string, RecapState> {
+  const stored = PropertiesService.getScriptProperties().getProperty(RECAP_STATE_KEY);
+  if (!stored) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(stored) as Record<string, RecapState>;
   } catch (error) {
-    Logger.log(`Blob upload error: ${error}`);
-    return null;
+    Logger.log(`Recap state parse error: ${error}`);
+    return {};
   }
 }
 
-function extractFacets(text: string): Array<{
-  index: { byteStart: number; byteEnd: number };
-  features: Array<any>;
-}> {
-  const facets: Array<{
-    index: { byteStart: number; byteEnd: number };
-    features: Array<any>;
-  }> = [];
-
-  // Detect URLs
-  const urlRegex = /https?:\/\/[^\s]+/g;
-  let match: RegExpExecArray | null;
+/**
+ * The topN most engaged prompts per language, summing the latest snapshot of each post
+ * across accounts. Prompts nobody reacted to are never picked
+ */
+function pickRecapPrompts(
+  posts: TrackedPost[],
+  snapshots: MetricsSnapshot[],
+  topN: number = 1
+): RecapPick[] {
+  const latest = getLatestSnapshots(snapshots);
+  const picks: Record<string, RecapPick> = {};
 
-  while ((match = urlRegex.exec(text)) !== null) {
-    const url = match[0];
-    const byteStart = Utilities.newBlob(text.substring(0, match.index)).getBytes().length;
-    const byteEnd = byteStart + Utilities.newBlob(url).getBytes().length;
-
-    facets.push({
-      index: { byteStart, byteEnd },
-      features: [
-        {
-          $type: 'app.bsky.richtext.facet#link',
-          uri: url,
-        },
-      ],
+  for (const post of posts) {
+    const key = `${post.lang}:${post.book_id}:${post.sentence_id}`;
+    const pick = (picks[key] = picks[key] || {
+      lang: post.lang,
+      rank: 0,
+      book_id: post.book_id,
+      sentence_id: post.sentence_id,
+      title: post.title,
+      author: post.author,
+      engagement: 0,
+      posts: [],
     });
+    const snapshot = latest[`${post.account.name}:${post.postId}`];
+    pick.engagement += snapshot ? getEngagement(snapshot) : 0;
+    pick.posts.push(post);
   }
 
-  // Detect hashtags - Use explicit Unicode ranges for GAS compatibility
-  // Covers: ASCII letters/digits/underscore, Hiragana, Katakana, CJK Unified Ideographs
-  const hashtagRegex = /#[a-zA-Z0-9_\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FFF]+/g;
-
-  while ((match = hashtagRegex.exec(text)) !== null) {
-    const hashtag = match[0];
-    const tag = hashtag.substring(1); // Remove # from tag value
-    const byteStart = Utilities.newBlob(text.substring(0, match.index)).getBytes().length;
-    const byteEnd = byteStart + Utilities.newBlob(hashtag).getBytes().length;
-
-    facets.push({
-      index: { byteStart, byteEnd },
-      features: [
-        {
-          $type: 'app.bsky.richtext.facet#tag',
-          tag: tag,
-        },
-      ],
-    });
+  const ranked: RecapPick[] = [];
+  for (const lang of ['ja', 'en'] as Language[]) {
+    Object.values(picks)
+      .filter((pick) => pick.lang === lang && pick.engagement > 0)
+      .sort((a, b) => b.engagement - a.engagement)
+      .slice(0, topN)
+      .forEach((pick, index) => ranked.push({ ...pick, rank: index + 1 }));
   }
-
-  return facets;
+  return ranked;
 }
 
-function postToBluesky(
-  text: string,
-  credentials: BlueskyCredentials,
-  shareUrl?: string,
-  ogpTitle?: string,
-  ogpDescription?: string,
-  ogpImageUrl?: string
-): boolean {
-  const accessJwt = createBlueskySession(credentials);
+/**
+ * Render the recap template within the platform limit, shortening the title if needed
+ * Returns null when even an ellipsized title does not fit
+ */
+function renderRecapText(pick: RecapPick, limit: TextLimit): string | null {
+  const template = loadTemplate(pick.lang, 'recap');
+  const render = (title: string): string =>
+    renderTemplate(template, {
+      title,
+      author: pick.author,
+      hashtags: generateHashtags(pick.book_id, pick.sentence_id, pick.lang),
+      url: generateShareUrl(pick.book_id, pick.sentence_id, pick.lang),
+      engagement: String(pick.engagement),
+      rank: String(pick.rank),
+    });
 
-  if (!accessJwt) {
-    Logger.log('Bluesky authentication failed');
-    return false;
+  const text = render(pick.title);
+  if (validateTextLength(text, limit).length === 0) {
+    return text;
   }
+  const title = findLongestFittingPrefix(pick.title, render, limit);
+  return title === null ? null : render(title);
+}
 
-  const url = `${BLUESKY_API_BASE}/com.atproto.repo.createRecord`;
+/**
+ * Quoting needs the CID as well as the URI, and the post log only keeps the URI
+ */
+function fetchBlueskyPostCid(uri: string): string | null {
+  const result = fetchWithRetry(
+    'Bluesky getPosts',
+    `${BLUESKY_PUBLIC_API_BASE}/app.bsky.feed.getPosts?uris=${encodeURIComponent(uri)}`
+  );
+  if (!result.ok) {
+    return null;
+  }
 
   try {
-    const now = new Date().toISOString();
-    const facets = extractFacets(text);
-
-    const record: any = {
-      $type: 'app.bsky.feed.post',
-      text: text,
-      createdAt: now,
-      ...(facets.length > 0 && { facets }),
-    };
-
-    if (shareUrl) {
-      const externalData: any = {
-        uri: shareUrl,
-        title: ogpTitle || 'Random Shosha - 書写のお題',
-        description: ogpDescription || '古典文学の一文を書写のお題として',
-      };
-
-      // Upload OGP image as thumbnail
-      if (ogpImageUrl) {
-        const blob = uploadBlobToBluesky(ogpImageUrl, accessJwt);
-        if (blob) {
-          externalData.thumb = blob;
-          Logger.log('OGP thumbnail uploaded successfully');
-        }
-      }
-
-      record.embed = {
-        $type: 'app.bsky.embed.external',
-        external: externalData,
-      };
-      Logger.log(`Adding OGP card - URL: ${shareUrl}, Title: ${ogpTitle}`);
-    }
-
-    Logger.log(`Bluesky post record: ${JSON.stringify(record)}`);
-
-    const payload = {
-      repo: credentials.identifier,
-      collection: 'app.bsky.feed.post',
-      record: record,
-    };
-
-    const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
-      method: 'post',
-      contentType: 'application/json',
-      headers: {
-        Authorization: `Bearer ${accessJwt}`,
-      },
-      payload: JSON.stringify(payload),
-      muteHttpExceptions: true,
-    };
+    const [post] = JSON.parse(result.response.getContentText()).posts || [];
+    return post ? post.cid : null;
+  } catch (error) {
+    Logger.log(`Bluesky getPosts parse error: ${error}`);
+    return null;
+  }
+}
 
-    const response = UrlFetchApp.fetch(url, options);
-    const responseCode = response.getResponseCode();
-    const responseText = response.getContentText();
+/**
+ * Quote the account's own post of the picked prompt; a dry run only logs the text
+ * Returns true when the recap was posted
+ */
+function publishRecap(pick: RecapPick, post: TrackedPost, dryRun: boolean): boolean {
+  const account = post.account;
+  const limit = account.platform === 'x' ? X_TEXT_LIMIT : BLUESKY_TEXT_LIMIT;
+  const text = renderRecapText(pick, limit);
+  if (text === null) {
+    Logger.log(`${account.name} recap skipped: text does not fit ${limit.maxLength}`);
+    return false;
+  }
+  if (dryRun) {
+    Logger.log(`${account.name} dry run recap quoting ${post.postId}: ${text}`);
+    return false;
+  }
 
-    if (responseCode === 200) {
-      Logger.log(`Bluesky post successful: ${responseText}`);
-      return true;
-    } else {
-      Logger.log(`Bluesky post failed (${responseCode}): ${responseText}`);
+  let outcome: PostOutcome;
+  if (account.platform === 'x') {
+    const credentials = loadXCredentials(account);
+    outcome = postXQuote(text, post.postId, credentials);
+  } else {
+    const credentials = loadBlueskyCredentials(account);
+    const cid = fetchBlueskyPostCid(post.postId);
+    if (!cid) {
+      Logger.log(`${account.name} recap skipped: could not look up ${post.postId}`);
       return false;
     }
-  } catch (error) {
-    Logger.log(`Bluesky post error: ${error}`);
+    outcome = postBlueskyQuote(text, { uri: post.postId, cid }, credentials);
+  }
+
+  if (!outcome.success) {
+    Logger.log(`${account.name} recap failed: ${outcome.error.message}`);
     return false;
   }
+  Logger.log(`${account.name} recap posted: ${outcome.post.permalink}`);
+  return true;
 }
 
 // ============================================================================
-// Credentials Functions
+// Main Functions (Called by GAS Triggers)
 // ============================================================================
 
-function getJapaneseXCredentials(): XCredentials {
-  const properties = PropertiesService.getScriptProperties();
-  return {
-    apiKey: properties.getProperty('X_RND_SHOSHA_API_KEY') || '',
-    apiSecret: properties.getProperty('X_RND_SHOSHA_API_KEY_SECRET') || '',
-    accessToken: properties.getProperty('X_RND_SHOSHA_ACCESS_TOKEN') || '',
-    accessTokenSecret: properties.getProperty('X_RND_SHOSHA_ACCESS_TOKEN_SECRET') || '',
-  };
+/**
+ * Post Japanese sentence to X (Japanese accounts)
+ * Trigger: Daily at JST 5:00 (or as needed)
+ */
+function postToXJapanese(): void {
+  runPost(JAPANESE_PIPELINE, { platforms: ['x'] });
 }
 
-function getEnglishXCredentials(): XCredentials {
-  const properties = PropertiesService.getScriptProperties();
-  return {
-    apiKey: properties.getProperty('X_RND_SHOSHA_EN_API_KEY') || '',
-    apiSecret: properties.getProperty('X_RND_SHOSHA_EN_API_KEY_SECRET') || '',
-    accessToken: properties.getProperty('X_RND_SHOSHA_EN_ACCESS_TOKEN') || '',
-    accessTokenSecret: properties.getProperty('X_RND_SHOSHA_EN_ACCESS_TOKEN_SECRET') || '',
-  };
+/**
+ * Post English sentence to X (English accounts)
+ * Trigger: Daily at NY time 5:00 (JST 18:00 or 19:00, or as needed)
+ */
+function postToXEnglish(): void {
+  runPost(ENGLISH_PIPELINE, { platforms: ['x'] });
 }
 
-function getBlueskyCredentials(): BlueskyCredentials {
-  const properties = PropertiesService.getScriptProperties();
-  return {
-    identifier: properties.getProperty('BSKY_HANDLE') || '',
-    password: properties.getProperty('BSKY_RND_SHOSHA_APP_PASS') || '',
-  };
+/**
+ * Post Japanese sentence to Bluesky
+ * Trigger: Daily at JST 5:00 (or as needed)
+ */
+function postToBlueskyJapanese(): void {
+  runPost(JAPANESE_PIPELINE, { platforms: ['bluesky'] });
+}
+
+/**
+ * Post English sentence to Bluesky
+ * Trigger: Daily at NY time 5:00 (JST 18:00 or 19:00, or as needed)
+ */
+function postToBlueskyEnglish(): void {
+  runPost(ENGLISH_PIPELINE, { platforms: ['bluesky'] });
+}
+
+/**
+ * Post Japanese sentence to Mastodon
+ * Trigger: Daily at JST 5:00 (or as needed)
+ */
+function postToMastodonJapanese(): void {
+  runPost(JAPANESE_PIPELINE, { platforms: ['mastodon'] });
+}
+
+/**
+ * Post English sentence to Mastodon
+ * Trigger: Daily at NY time 5:00 (JST 18:00 or 19:00, or as needed)
+ */
+function postToMastodonEnglish(): void {
+  runPost(ENGLISH_PIPELINE, { platforms: ['mastodon'] });
+}
+
+/**
+ * Post Japanese sentence to Misskey
+ * Trigger: Daily at JST 5:00 (or as needed)
+ */
+function postToMisskeyJapanese(): void {
+  runPost(JAPANESE_PIPELINE, { platforms: ['misskey'] });
 }
 
 // ============================================================================
-// Main Functions (Called by GAS Triggers)
+// Combined Posting Functions (Post to every platform)
 // ============================================================================
 
 /**
- * Post Japanese sentence to X (Japanese account)
+ * Post Japanese sentence to every enabled Japanese account
  * Trigger: Daily at JST 5:00 (or as needed)
  */
-function postToXJapanese(): void {
-  Logger.log('=== Starting Japanese post to X ===');
+function postJapanese(): void {
+  runPost(JAPANESE_PIPELINE);
+}
 
-  try {
-    const data = fetchJapaneseSentence();
-    const shareContent = generateJapaneseShareContent(data);
+/**
+ * Post English sentence to every enabled English account
+ * Trigger: Daily at NY time 5:00, kept across DST by installScheduledTriggers
+ */
+function postEnglish(): void {
+  runPost(ENGLISH_PIPELINE);
+}
+
+// ============================================================================
+// Resume Entry Points (Run manually or from a follow-up trigger)
+// ============================================================================
 
-    Logger.log(`Post text: ${shareContent.text}`);
+/**
+ * Re-post the pending Japanese sentence to the accounts that failed; never draws a new one
+ */
+function resumeJapanese(): void {
+  runPost(JAPANESE_PIPELINE, { resumeOnly: true });
+}
 
-    const xCredentials = getJapaneseXCredentials();
-    const xResult = postToX(shareContent.text, xCredentials);
-    Logger.log(`X post result: ${xResult ? 'Success' : 'Failed'}`);
+/**
+ * Re-post the pending English sentence to the accounts that failed; never draws a new one
+ */
+function resumeEnglish(): void {
+  runPost(ENGLISH_PIPELINE, { resumeOnly: true });
+}
 
-    Logger.log('=== Japanese post to X completed ===');
-  } catch (error) {
-    Logger.log(`Japanese post to X error: ${error}`);
-  }
+// ============================================================================
+// Dry Run Entry Points (Run manually from the editor)
+// ============================================================================
+
+/**
+ * Build and validate the Japanese posts for every platform without posting
+ */
+function dryRunJapanese(): void {
+  runPost(JAPANESE_PIPELINE, { dryRun: true });
 }
 
 /**
- * Post English sentence to X (English account)
- * Trigger: Daily at NY time 5:00 (JST 18:00 or 19:00, or as needed)
+ * Build and validate the English posts for every platform without posting
  */
-function postToXEnglish(): void {
-  Logger.log('=== Starting English post to X ===');
+function dryRunEnglish(): void {
+  runPost(ENGLISH_PIPELINE, { dryRun: true });
+}
 
-  try {
-    const data = fetchEnglishSentence();
-    const shareContent = generateEnglishShareContent(data);
+// ============================================================================
+// Metrics Entry Points (Called by a GAS trigger, e.g. daily)
+// ============================================================================
 
-    Logger.log(`Post text: ${shareContent.text}`);
+/**
+ * Snapshot engagement of recent X and Bluesky posts and rebuild the summary sheet
+ * Needs POST_LOG_SPREADSHEET_ID, since the post log is the list of posts to track
+ */
+function collectEngagementMetrics(): void {
+  try {
+    const postLog = getPostLogSheet();
+    const metricsSheet = getLogSheet(METRICS_SHEET_NAME, METRICS_HEADERS);
+    if (!postLog || !metricsSheet) {
+      Logger.log('Engagement metrics need POST_LOG_SPREADSHEET_ID');
+      return;
+    }
 
-    const xCredentials = getEnglishXCredentials();
-    const xResult = postToX(shareContent.text, xCredentials);
-    Logger.log(`X post result: ${xResult ? 'Success' : 'Failed'}`);
+    const now = new Date();
+    const snapshots = collectSnapshots(loadTrackedPosts(postLog, now), now);
+    if (snapshots.length > 0) {
+      const rows = snapshots.map((snapshot) => [
+        snapshot.collectedAt,
+        snapshot.lang,
+        snapshot.book_id,
+        snapshot.sentence_id,
+        snapshot.title,
+        snapshot.author,
+        snapshot.account,
+        snapshot.postId,
+        snapshot.likes,
+        snapshot.reposts,
+        snapshot.replies,
+        snapshot.quotes,
+        snapshot.impressions === null ? '' : snapshot.impressions,
+      ]);
+      appendLogRows(metricsSheet, METRICS_HEADERS, rows, ['post_id']);
+    }
+    Logger.log(`Collected engagement for ${snapshots.length} posts`);
 
-    Logger.log('=== English post to X completed ===');
+    writeEngagementSummary(aggregateEngagement(readSnapshots(metricsSheet)));
   } catch (error) {
-    Logger.log(`English post to X error: ${error}`);
+    Logger.log(`Engagement metrics error: ${error}`);
   }
 }
 
+// ============================================================================
+// Submission Entry Points (Called by GAS triggers, e.g. hourly and daily)
+// ============================================================================
+
 /**
- * Post Japanese sentence to Bluesky
- * Trigger: Daily at JST 5:00 (or as needed)
+ * Search each recently posted sentence's tag on Bluesky and record new image submissions
+ * in the Submissions sheet, liking or reposting them when enabled
  */
-function postToBlueskyJapanese(): void {
-  Logger.log('=== Starting Japanese post to Bluesky ===');
-
+function collectSubmissions(): void {
   try {
-    const data = fetchJapaneseSentence();
-    const shareContent = generateJapaneseShareContent(data);
+    const sheet = getSubmissionsSheet();
+    if (!sheet) {
+      Logger.log('Submissions need POST_LOG_SPREADSHEET_ID');
+      return;
+    }
+    const config = getSubmissionsConfig();
+    if (!config.account) {
+      Logger.log('Submissions need an enabled Bluesky account');
+      return;
+    }
+    const credentials = loadBlueskyCredentials(config.account);
+    if (!hasCredentials(credentials)) {
+      Logger.log(`Submissions skipped: ${config.account.name} credentials not configured`);
+      return;
+    }
+    let session = getBlueskySession(credentials);
+    if (session instanceof RequestError) {
+      Logger.log(`Submissions skipped: ${session.message}`);
+      return;
+    }
 
-    Logger.log(`Post text: ${shareContent.text}`);
+    const now = Date.now();
+    const known = loadSubmissions(sheet).map((submission) => submission.uri);
+    const found: Submission[] = [];
 
-    // Generate OGP image URL from sentence data
-    const ogpImageUrl = generateOGPImageUrl(
-      data.sentence_text,
-      data.title,
-      data.author,
-      'ja'
-    );
+    for (const lang of ['ja', 'en'] as Language[]) {
+      const sentences = loadPostHistory(lang).filter(
+        (entry) => now - new Date(entry.postedAt).getTime() < config.windowDays * DAY_MS
+      );
+      for (const entry of sentences) {
+        const tag = getSentenceTag(entry.book_id, entry.sentence_id);
+        const posts = searchTaggedImagePosts(tag, entry.postedAt, session) || [];
+        for (const post of posts) {
+          if (known.includes(post.uri)) {
+            continue;
+          }
+          known.push(post.uri);
+          found.push({
+            uri: post.uri,
+            cid: post.cid,
+            did: post.author.did,
+            handle: post.author.handle,
+            tag,
+            lang,
+            indexedAt: post.indexedAt || new Date(now).toISOString(),
+            liked: false,
+            reposted: false,
+          });
+        }
+      }
+    }
 
-    const blueskyCredentials = getBlueskyCredentials();
-    const blueskyResult = postToBluesky(
-      shareContent.text,
-      blueskyCredentials,
-      shareContent.url,
-      'Random Shosha - 書写のお題',
-      '古典文学の一文を書写のお題として',
-      ogpImageUrl
-    );
-    Logger.log(`Bluesky post result: ${blueskyResult ? 'Success' : 'Failed'}`);
+    Logger.log(`Found ${found.length} new submissions`);
+    if (found.length === 0) {
+      return;
+    }
+    const firstRow = appendSubmissions(sheet, found);
+
+    for (const submission of found) {
+      if (config.autoLike) {
+        const like = createBlueskySubjectRecord(
+          'app.bsky.feed.like',
+          submission,
+          session,
+          credentials
+        );
+        submission.liked = like.success;
+        session = like.session;
+      }
+      if (config.autoRepost) {
+        const repost = createBlueskySubjectRecord(
+          'app.bsky.feed.repost',
+          submission,
+          session,
+          credentials
+        );
+        submission.reposted = repost.success;
+        session = repost.session;
+      }
+    }
 
-    Logger.log('=== Japanese post to Bluesky completed ===');
+    if (config.autoLike || config.autoRepost) {
+      updateSubmissionActions(sheet, firstRow, found);
+    }
   } catch (error) {
-    Logger.log(`Japanese post to Bluesky error: ${error}`);
+    Logger.log(`Submissions error: ${error}`);
   }
 }
 
 /**
- * Post English sentence to Bluesky
- * Trigger: Daily at NY time 5:00 (JST 18:00 or 19:00, or as needed)
+ * Post a roundup of the last week's submissions per language from the submissions account
+ * Safe to trigger daily: each language posts at most once per ROUNDUP_INTERVAL_DAYS
  */
-function postToBlueskyEnglish(): void {
-  Logger.log('=== Starting English post to Bluesky ===');
-
+function postSubmissionRoundup(): void {
   try {
-    const data = fetchEnglishSentence();
-    const shareContent = generateEnglishShareContent(data);
+    const properties = PropertiesService.getScriptProperties();
+    const now = Date.now();
+    const intervalMs = ROUNDUP_INTERVAL_DAYS * DAY_MS;
 
-    Logger.log(`Post text: ${shareContent.text}`);
-
-    // Generate OGP image URL from sentence data
-    const ogpImageUrl = generateOGPImageUrl(
-      data.sentence_text,
-      data.title,
-      data.author,
-      'en'
+    const sheet = getSubmissionsSheet();
+    if (!sheet) {
+      Logger.log('Roundup needs POST_LOG_SPREADSHEET_ID');
+      return;
+    }
+    const recent = loadSubmissions(sheet).filter(
+      (submission) => now - new Date(submission.indexedAt).getTime() < intervalMs
     );
 
-    const blueskyCredentials = getBlueskyCredentials();
-    const blueskyResult = postToBluesky(
-      shareContent.text,
-      blueskyCredentials,
-      shareContent.url,
-      'Random Shosha - Calligraphy Practice',
-      'Classic literature sentence for calligraphy practice',
-      ogpImageUrl
-    );
-    Logger.log(`Bluesky post result: ${blueskyResult ? 'Success' : 'Failed'}`);
+    for (const lang of ['ja', 'en'] as Language[]) {
+      const key = `${SUBMISSIONS_LAST_ROUNDUP_KEY_PREFIX}${lang.toUpperCase()}`;
+      const lastRoundup = properties.getProperty(key);
+      if (lastRoundup && now - new Date(lastRoundup).getTime() < intervalMs) {
+        Logger.log(`Roundup ${lang} skipped: last one was posted at ${lastRoundup}`);
+        continue;
+      }
+      const submissions = recent.filter((submission) => submission.lang === lang);
+      if (submissions.length === 0) {
+        Logger.log(`Roundup ${lang} skipped: no submissions this week`);
+        continue;
+      }
+
+      const config = getSubmissionsConfig();
+      if (!config.account) {
+        Logger.log('Roundup needs an enabled Bluesky account');
+        return;
+      }
+      const credentials = loadBlueskyCredentials(config.account);
+      const outcome = postToBluesky(buildRoundupText(submissions, lang), credentials);
+      if (!outcome.success) {
+        Logger.log(`Roundup ${lang} failed: ${outcome.error.message}`);
+        continue;
+      }
 
-    Logger.log('=== English post to Bluesky completed ===');
+      properties.setProperty(key, new Date(now).toISOString());
+      Logger.log(`Roundup ${lang} posted: ${outcome.post.permalink}`);
+    }
   } catch (error) {
-    Logger.log(`English post to Bluesky error: ${error}`);
+    Logger.log(`Roundup error: ${error}`);
   }
 }
 
 // ============================================================================
-// Combined Posting Functions (Post to both X and Bluesky)
+// Recap Entry Points (Called by a GAS trigger, e.g. weekly)
 // ============================================================================
 
 /**
- * Post Japanese sentence to both X and Bluesky
- * Trigger: Daily at JST 5:00 (or as needed)
+ * Quote the week's RECAP_TOP_N most engaged prompts per language from each X and Bluesky
+ * account. Safe to trigger daily: each account posts at most once per RECAP_INTERVAL_DAYS,
+ * and an account whose recap failed is retried on the next run
  */
-function postJapanese(): void {
-  Logger.log('=== Starting Japanese post to both X and Bluesky ===');
-
+function postWeeklyRecap(): void {
   try {
-    const data = fetchJapaneseSentence();
-    const shareContent = generateJapaneseShareContent(data);
+    const now = new Date();
+    const intervalMs = RECAP_INTERVAL_DAYS * DAY_MS;
+    const dryRun = isDryRunEnabled();
 
-    Logger.log(`Post text: ${shareContent.text}`);
-
-    // Post to X (Japanese account)
-    const xCredentials = getJapaneseXCredentials();
-    const xResult = postToX(shareContent.text, xCredentials);
-    Logger.log(`X post result: ${xResult ? 'Success' : 'Failed'}`);
+    const postLog = getPostLogSheet();
+    const metricsSheet = getLogSheet(METRICS_SHEET_NAME, METRICS_HEADERS);
+    if (!postLog || !metricsSheet) {
+      Logger.log('Weekly recap needs POST_LOG_SPREADSHEET_ID');
+      return;
+    }
 
-    // Post to Bluesky
-    const blueskyCredentials = getBlueskyCredentials();
-    const ogpImageUrl = generateOGPImageUrl(
-      data.sentence_text,
-      data.title,
-      data.author,
-      'ja'
+    const picks = pickRecapPrompts(
+      loadTrackedPosts(postLog, now, intervalMs),
+      readSnapshots(metricsSheet),
+      getRecapTopN()
     );
-    const blueskyResult = postToBluesky(
-      shareContent.text,
-      blueskyCredentials,
-      shareContent.url,
-      'Random Shosha - 書写のお題',
-      '古典文学の一文を書写のお題として',
-      ogpImageUrl
-    );
-    Logger.log(`Bluesky post result: ${blueskyResult ? 'Success' : 'Failed'}`);
+    if (picks.length === 0) {
+      Logger.log('Recap skipped: no engagement recorded this week');
+      return;
+    }
+
+    // Quotes each account makes, keyed like the recap state
+    const planned: Record<string, Array<{ pick: RecapPick; post: TrackedPost }>> = {};
+    for (const pick of picks) {
+      Logger.log(`Recap ${pick.lang} #${pick.rank}: ${pick.title} (${pick.engagement} reactions)`);
+      for (const post of pick.posts) {
+        const key = `${post.account.name}:${pick.lang}`;
+        (planned[key] = planned[key] || []).push({ pick, post });
+      }
+    }
+
+    const state = loadRecapState();
+    for (const [key, quotes] of Object.entries(planned)) {
+      const entry = state[key] || { postedAt: null, quoted: [] };
+      const postedAt = entry.postedAt ? new Date(entry.postedAt).getTime() : 0;
+      if (!dryRun && now.getTime() - postedAt < intervalMs) {
+        Logger.log(`Recap skipped for ${key}: last one was posted at ${entry.postedAt}`);
+        continue;
+      }
+
+      // Like a skipped post, an account without credentials is done for the period
+      if (!dryRun && !hasCredentials(loadAccountCredentials(quotes[0]!.post.account))) {
+        Logger.log(`Recap skipped for ${key}: credentials not configured`);
+        state[key] = { postedAt: now.toISOString(), quoted: [] };
+        PropertiesService.getScriptProperties().setProperty(RECAP_STATE_KEY, JSON.stringify(state));
+        continue;
+      }
+
+      const quoted = entry.quoted.filter((id) => quotes.some(({ post }) => post.postId === id));
+      for (const { pick, post } of quotes) {
+        if (!quoted.includes(post.postId) && publishRecap(pick, post, dryRun)) {
+          quoted.push(post.postId);
+        }
+      }
+      if (dryRun) {
+        continue;
+      }
 
-    Logger.log('=== Japanese post to both platforms completed ===');
+      state[key] =
+        quoted.length === quotes.length
+          ? { postedAt: now.toISOString(), quoted: [] }
+          : { postedAt: entry.postedAt, quoted };
+      PropertiesService.getScriptProperties().setProperty(RECAP_STATE_KEY, JSON.stringify(state));
+    }
   } catch (error) {
-    Logger.log(`Japanese post error: ${error}`);
+    Logger.log(`Weekly recap error: ${error}`);
+  }
+}
+
+// ============================================================================
+// Web App Entry Points (Deploy as a web app executing as the script owner)
+// ============================================================================
+
+/**
+ * Dashboard with recent runs and forms to post, dry run or re-post
+ */
+function doGet(e: GoogleAppsScript.Events.DoGet): GoogleAppsScript.HTML.HtmlOutput {
+  const key = e.parameter.key;
+  if (!isDashboardAuthorized(key)) {
+    return createDashboardOutput(renderNotAuthorized());
   }
+  return createDashboardOutput(renderDashboard(key || ''));
 }
 
 /**
- * Post English sentence to both X and Bluesky
- * Trigger: Daily at NY time 5:00 (JST 18:00 or 19:00, or as needed)
+ * Run a dashboard action and show its result above the dashboard
  */
-function postEnglish(): void {
-  Logger.log('=== Starting English post to both X and Bluesky ===');
+function doPost(e: GoogleAppsScript.Events.DoPost): GoogleAppsScript.HTML.HtmlOutput {
+  const key = e.parameter.key;
+  if (!isDashboardAuthorized(key)) {
+    return createDashboardOutput(renderNotAuthorized());
+  }
+  if (!isDashboardTokenValid(e.parameter.token)) {
+    const expired = '<p class="error">The form has expired; nothing was run. Try again.</p>';
+    return createDashboardOutput(renderDashboard(key || '', expired));
+  }
 
+  let resultHtml: string;
   try {
-    const data = fetchEnglishSentence();
-    const shareContent = generateEnglishShareContent(data);
-
-    Logger.log(`Post text: ${shareContent.text}`);
-
-    // Post to X (English account)
-    const xCredentials = getEnglishXCredentials();
-    const xResult = postToX(shareContent.text, xCredentials);
-    Logger.log(`X post result: ${xResult ? 'Success' : 'Failed'}`);
-
-    // Post to Bluesky
-    const blueskyCredentials = getBlueskyCredentials();
-    const ogpImageUrl = generateOGPImageUrl(
-      data.sentence_text,
-      data.title,
-      data.author,
-      'en'
-    );
-    const blueskyResult = postToBluesky(
-      shareContent.text,
-      blueskyCredentials,
-      shareContent.url,
-      'Random Shosha - Calligraphy Practice',
-      'Classic literature sentence for calligraphy practice',
-      ogpImageUrl
-    );
-    Logger.log(`Bluesky post result: ${blueskyResult ? 'Success' : 'Failed'}`);
-
-    Logger.log('=== English post to both platforms completed ===');
+    resultHtml = renderRunReport(handleDashboardAction(e.parameter, e.parameters));
   } catch (error) {
-    Logger.log(`English post error: ${error}`);
+    Logger.log(`Dashboard error: ${error}`);
+    resultHtml = `<p class="error">${escapeHtml(String(error))}</p>`;
   }
+  return createDashboardOutput(renderDashboard(key || '', resultHtml));
 }
@@ -0,0 +1,54 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { loadCode, plain } = require('./gas-fakes');
+
+function account(name, languages, identifier) {
+  return {
+    name,
+    platform: 'bluesky',
+    languages,
+    credentials: { identifier, password: 'BSKY_PASS' },
+  };
+}
+
+test('an account name already used for one of the languages is skipped', () => {
+  const { context, logs } = loadCode({
+    scriptProperties: {
+      ACCOUNT_REGISTRY: JSON.stringify([
+        account('Main', ['ja'], 'BSKY_JA'),
+        account('Main', ['ja', 'en'], 'BSKY_BOTH'),
+        account('Main', ['en'], 'BSKY_EN'),
+      ]),
+    },
+  });
+
+  const accounts = plain(context.loadAccountRegistry());
+
+  assert.deepEqual(
+    accounts.map((entry) => [entry.name, entry.languages, entry.credentials.identifier]),
+    [
+      ['Main', ['ja'], 'BSKY_JA'],
+      ['Main', ['en'], 'BSKY_EN'],
+    ]
+  );
+  assert.ok(logs.includes('Skipping account #1: name Main is already used'));
+});
+
+test('registry entries are validated without trusting their shape', () => {
+  const { context } = loadCode();
+
+  assert.deepEqual(plain(context.validateAccountConfig(['not', 'an', 'object'])), [
+    'entry is not an object',
+  ]);
+  assert.deepEqual(
+    plain(context.validateAccountConfig({ name: 'X', platform: 'x', languages: ['ja'] })),
+    [
+      'credentials.apiKey must name a Script Properties key',
+      'credentials.apiSecret must name a Script Properties key',
+      'credentials.accessToken must name a Script Properties key',
+      'credentials.accessTokenSecret must name a Script Properties key',
+    ]
+  );
+});
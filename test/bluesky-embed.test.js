@@ -0,0 +1,49 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { createFakePng, loadCode } = require('./gas-fakes');
+const { BLUESKY_CREDENTIALS, SENTENCE, setUpServers } = require('./fixtures');
+
+const UPLOAD_BLOB_URL = 'https://bsky.social/xrpc/com.atproto.repo.uploadBlob';
+const CREATE_RECORD_URL = 'https://bsky.social/xrpc/com.atproto.repo.createRecord';
+const SHARE_URL = 'https://rmc-8.com/shosha/random_shosha/?book_id=natsume-wagahai&sentence_id=12';
+
+function postWithImage(image) {
+  const environment = loadCode({
+    scriptProperties: { ...BLUESKY_CREDENTIALS, BLUESKY_EMBED_MODE: 'images' },
+  });
+  setUpServers(environment, {
+    ogImage: () => ({ body: image, contentType: 'image/png' }),
+  });
+  environment.context.postToBlueskyJapanese();
+  return environment;
+}
+
+test('images mode embeds the OGP image with the sentence as alt text', () => {
+  const { server, logs } = postWithImage(createFakePng(1200, 630));
+
+  const [createRecord] = server.requestsTo(CREATE_RECORD_URL);
+  const { embed } = createRecord.json().record;
+  assert.equal(embed.$type, 'app.bsky.embed.images');
+  const [image] = embed.images;
+  assert.equal(image.alt, SENTENCE.sentence_text);
+  assert.deepEqual(image.aspectRatio, { width: 1200, height: 630 });
+  assert.equal(image.image.ref.$link, 'bafkreiimage');
+  assert.ok(logs.includes('OGP image embedded at full size'));
+});
+
+test('an image over the blob size limit falls back to the link card without uploading', () => {
+  const oversized = Buffer.concat([createFakePng(), Buffer.alloc(1000000)]);
+  const { server, logs } = postWithImage(oversized);
+
+  assert.equal(server.requestsTo(UPLOAD_BLOB_URL).length, 0);
+  assert.ok(logs.includes(`Blob too large for Bluesky: ${oversized.length} > 1000000 bytes`));
+  assert.ok(logs.includes('Image embed unavailable, falling back to the link card'));
+
+  const [createRecord] = server.requestsTo(CREATE_RECORD_URL);
+  const { embed } = createRecord.json().record;
+  assert.equal(embed.$type, 'app.bsky.embed.external');
+  assert.equal(embed.external.uri, SHARE_URL);
+  assert.equal(embed.external.thumb, undefined);
+});
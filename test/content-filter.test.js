@@ -0,0 +1,87 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { loadCode } = require('./gas-fakes');
+const { CREDENTIALS, SENTENCE, setUpServers } = require('./fixtures');
+
+const SENTENCE_URL = 'https://rmc-8.com/api/random-shosha';
+
+const BOTCHAN = {
+  sentence_text: '親譲りの無鉄砲で小供の時から損ばかりしている。',
+  book_id: 'natsume-botchan',
+  sentence_id: 1,
+  title: '坊っちゃん',
+  author: '夏目漱石',
+  char_count: 23,
+};
+
+/**
+ * Serve the given sentences in order, repeating the last one
+ */
+function setUp(scriptProperties, sentences) {
+  const environment = loadCode({ scriptProperties: { ...CREDENTIALS, ...scriptProperties } });
+  setUpServers(environment, {
+    sentence: () => ({ body: sentences.length > 1 ? sentences.shift() : sentences[0] }),
+  });
+  return environment;
+}
+
+test('a sentence from a blocked book is redrawn before posting', () => {
+  const { context, server, logs } = setUp(
+    { CONTENT_FILTER_JA: JSON.stringify({ blockBooks: ['Natsume-Wagahai'] }) },
+    [SENTENCE, BOTCHAN]
+  );
+
+  context.postJapanese();
+
+  assert.equal(server.requestsTo(SENTENCE_URL).length, 2);
+  assert.ok(
+    logs.includes('Rejected natsume-wagahai/12 by filter: book "吾輩は猫である" is in blockBooks')
+  );
+  const [tweet] = server.requestsTo('https://api.twitter.com/2/tweets');
+  assert.ok(tweet.json().text.includes('book_id=natsume-botchan&sentence_id=1'));
+});
+
+test('nothing is posted when no draw passes the filters', () => {
+  const { context, server, logs } = setUp(
+    {
+      CONTENT_FILTER_JA: JSON.stringify({ blockKeywords: ['名前'] }),
+      POST_HISTORY_MAX_DRAWS: '3',
+    },
+    [SENTENCE]
+  );
+
+  context.postJapanese();
+
+  assert.equal(server.requestsTo(SENTENCE_URL).length, 3);
+  assert.equal(server.requestsTo('https://api.twitter.com/2/tweets').length, 0);
+  assert.equal(
+    server.requestsTo('https://bsky.social/xrpc/com.atproto.repo.createRecord').length,
+    0
+  );
+  assert.ok(
+    logs.some((line) =>
+      line.includes('No Japanese sentence passed the content filters after 3 draws')
+    )
+  );
+});
+
+test('an invalid filter stops the run instead of posting unfiltered', () => {
+  const { context, server, logs } = setUp(
+    { CONTENT_FILTER_JA: JSON.stringify({ minLength: 10, maxLength: 5, blockBooks: 'all' }) },
+    [SENTENCE]
+  );
+
+  context.postJapanese();
+
+  assert.equal(server.requestsTo(SENTENCE_URL).length, 0);
+  assert.ok(
+    logs.some((line) =>
+      line.includes(
+        'CONTENT_FILTER_JA is invalid: minLength must not exceed maxLength; ' +
+          'blockBooks must be a list of strings'
+      )
+    )
+  );
+});
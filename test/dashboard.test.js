@@ -0,0 +1,145 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { loadCode } = require('./gas-fakes');
+const { BLUESKY_CREDENTIALS, SENTENCE, setUpServers } = require('./fixtures');
+
+const SCRIPT_PROPERTIES = {
+  ...BLUESKY_CREDENTIALS,
+  DASHBOARD_SECRET: 'open-sesame',
+  SENTENCE_LOOKUP_URL_JA: 'https://rmc-8.com/api/shosha/{book_id}/{sentence_id}',
+};
+
+function setUpBluesky(environment, sentence = SENTENCE) {
+  setUpServers(environment, {
+    ogImage: () => ({ status: 404, body: 'missing' }),
+  }).on('get', 'https://rmc-8.com/api/shosha/', () => ({ body: sentence }));
+}
+
+/** Read the form token the way a browser would, from a freshly served dashboard */
+function formToken(context, key = 'open-sesame') {
+  const html = context.doGet({ parameter: { key }, parameters: {} }).getContent();
+  return html.match(/name="token" value="([^"]+)"/)[1];
+}
+
+function repostEvent(context, key, sentenceId = '12') {
+  return {
+    parameter: {
+      key,
+      token: formToken(context, key),
+      action: 'repost',
+      lang: 'ja',
+      book_id: 'natsume-wagahai',
+      sentence_id: sentenceId,
+    },
+    parameters: { platform: ['bluesky'] },
+  };
+}
+
+test('the dashboard refuses requests without the secret or an allowed user', () => {
+  const { context } = loadCode({ scriptProperties: { ...SCRIPT_PROPERTIES } });
+
+  const open = (parameter) => context.doGet({ parameter, parameters: {} }).getContent();
+
+  assert.equal(open({}), '<p>Not authorized</p>');
+  assert.equal(open({ key: 'open-sesamf' }), '<p>Not authorized</p>');
+  assert.match(open({ key: 'open-sesame' }), /Recent runs/);
+});
+
+test('an allowed Google account can open the dashboard without the secret', () => {
+  const { context } = loadCode({
+    scriptProperties: { DASHBOARD_ALLOWED_USERS: 'owner@example.com, Editor@Example.com' },
+    activeUser: 'editor@example.com',
+  });
+
+  assert.match(context.doGet({ parameter: {}, parameters: {} }).getContent(), /Post now/);
+});
+
+test('an allow-list that cannot see the signed-in account says so and accepts the secret', () => {
+  const { context, logs } = loadCode({
+    scriptProperties: { ...SCRIPT_PROPERTIES, DASHBOARD_ALLOWED_USERS: 'owner@gmail.com' },
+    activeUser: '',
+  });
+
+  const open = (parameter) => context.doGet({ parameter, parameters: {} }).getContent();
+
+  assert.match(open({}), /did not report the signed-in account/);
+  assert.ok(logs.some((line) => line.startsWith('Dashboard refused: Apps Script did not report')));
+  assert.match(open({ key: 'open-sesame' }), /Post now/);
+});
+
+test('re-posting a sentence fetches it by id and posts only to the selected platform', () => {
+  const environment = loadCode({ scriptProperties: { ...SCRIPT_PROPERTIES } });
+  setUpBluesky(environment);
+  const { context, server } = environment;
+
+  const html = context.doPost(repostEvent(context, 'open-sesame')).getContent();
+
+  assert.deepEqual(
+    server.requestsTo('https://rmc-8.com/api/shosha/').map((request) => request.url),
+    ['https://rmc-8.com/api/shosha/natsume-wagahai/12']
+  );
+  assert.equal(
+    server.requestsTo('https://bsky.social/xrpc/com.atproto.repo.createRecord').length,
+    1
+  );
+  assert.match(html, /Bluesky \(bluesky\): success/);
+  assert.match(html, /https:\/\/bsky\.app\/profile\/did:plc:bot\/post\/3kpost/);
+
+  // The run is listed on the next page load
+  const dashboard = context.doGet({ parameter: { key: 'open-sesame' }, parameters: {} });
+  assert.match(dashboard.getContent(), /吾輩は猫である \/ 夏目漱石 \(natsume-wagahai\/12\)/);
+});
+
+test('a re-post is refused when the API returns a different sentence', () => {
+  const environment = loadCode({ scriptProperties: { ...SCRIPT_PROPERTIES } });
+  setUpBluesky(environment, { ...SENTENCE, sentence_id: 99 });
+  const { context, server } = environment;
+
+  const html = context.doPost(repostEvent(context, 'open-sesame')).getContent();
+
+  assert.match(html, /requested natsume-wagahai\/12 but got natsume-wagahai\/99/);
+  assert.equal(
+    server.requestsTo('https://bsky.social/xrpc/com.atproto.repo.createRecord').length,
+    0
+  );
+});
+
+test('invalid dashboard input is rejected before any request', () => {
+  const environment = loadCode({ scriptProperties: { ...SCRIPT_PROPERTIES } });
+  const { context, server } = environment;
+
+  const html = context.doPost(repostEvent(context, 'open-sesame', 'twelve')).getContent();
+
+  assert.match(html, /Re-post needs a book_id and an integer sentence_id/);
+  assert.equal(server.requests.length, 0);
+});
+
+test('a post without a valid form token runs nothing', () => {
+  const environment = loadCode({ scriptProperties: { ...SCRIPT_PROPERTIES } });
+  setUpBluesky(environment);
+  const { context, clock, server } = environment;
+
+  const event = repostEvent(context, 'open-sesame');
+  const forged = { ...event, parameter: { ...event.parameter, token: '1.Zm9yZ2Vk' } };
+  assert.match(context.doPost(forged).getContent(), /The form has expired; nothing was run/);
+
+  clock.now += 2 * 60 * 60 * 1000;
+  assert.match(context.doPost(event).getContent(), /The form has expired; nothing was run/);
+  assert.equal(server.requests.length, 0);
+});
+
+test('resuming with no failed posts is reported instead of posting a new sentence', () => {
+  const environment = loadCode({ scriptProperties: { ...SCRIPT_PROPERTIES } });
+  setUpBluesky(environment);
+  const { context, server } = environment;
+
+  const html = context.doPost({
+    parameter: { key: 'open-sesame', token: formToken(context), action: 'resume', lang: 'ja' },
+    parameters: { platform: ['bluesky'] },
+  }).getContent();
+
+  assert.match(html, /No failed ja posts to resume/);
+  assert.equal(server.requests.length, 0);
+});
@@ -0,0 +1,57 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { loadCode } = require('./gas-fakes');
+const { CREDENTIALS, setUpServers } = require('./fixtures');
+
+const WEBHOOK_URL = 'https://hooks.slack.com/services/T000/B000/secret';
+
+function setUp(overrides) {
+  const environment = loadCode({
+    scriptProperties: {
+      ...CREDENTIALS,
+      DRY_RUN: 'true',
+      THREAD_MODE: 'true',
+      POST_LOG_SPREADSHEET_ID: 'log-spreadsheet',
+      NOTIFY_WEBHOOK_URLS: WEBHOOK_URL,
+    },
+  });
+  setUpServers(environment, overrides);
+  return environment;
+}
+
+test('a dry run previews every payload without writing anywhere', () => {
+  const { context, server, logs, scriptProperties, spreadsheet } = setUp();
+  const properties = JSON.stringify(scriptProperties.getProperties());
+
+  context.postJapanese();
+
+  assert.deepEqual(
+    server.requests.map((request) => request.method),
+    ['get', 'get'],
+    'only the sentence and the OGP image are fetched'
+  );
+  assert.ok(logs.some((line) => line.startsWith('X dry run payload: {"text":"『吾輩は猫である』')));
+  assert.ok(logs.includes('X dry run thread: ["吾輩は猫である。名前はまだ無い。"]'));
+  assert.ok(logs.includes('X dry run result: Valid'));
+  assert.ok(logs.includes('Bluesky dry run result: Valid'));
+
+  assert.equal(spreadsheet.getSheetByName('PostLog'), null);
+  assert.equal(JSON.stringify(scriptProperties.getProperties()), properties);
+  assert.equal(server.requestsTo(WEBHOOK_URL).length, 0);
+});
+
+test('a dry run reports an OGP image that does not resolve', () => {
+  const { context, server, logs } = setUp({
+    ogImage: () => ({ status: 404, body: 'Not Found' }),
+  });
+
+  context.postJapanese();
+
+  assert.equal(server.requestsTo('https://rmc-8.com/api/og-shosha').length, 1);
+  const invalid = 'Invalid (OGP image did not resolve: OGP image check failed (404): Not Found)';
+  assert.ok(logs.includes(`X dry run result: ${invalid}`));
+  assert.ok(logs.includes(`Bluesky dry run result: ${invalid}`));
+  assert.equal(server.requestsTo(WEBHOOK_URL).length, 0);
+});
@@ -0,0 +1,88 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { loadCode, plain } = require('./gas-fakes');
+
+// Map each facet back to the UTF-8 slice it covers, as Bluesky does
+function describeFacets(text, facets) {
+  const bytes = Buffer.from(text, 'utf8');
+  return plain(facets).map((facet) => ({
+    span: bytes.subarray(facet.index.byteStart, facet.index.byteEnd).toString('utf8'),
+    feature: facet.features[0],
+  }));
+}
+
+test('hashtag byte offsets count Japanese characters as three bytes', () => {
+  const { context } = loadCode();
+  const text = '吾輩は猫である。\n#ランダム書写 #wagahai_12';
+
+  const facets = context.extractFacets(text);
+
+  assert.deepEqual(
+    plain(facets.map((facet) => facet.index)),
+    [
+      { byteStart: 25, byteEnd: 44 },
+      { byteStart: 45, byteEnd: 56 },
+    ]
+  );
+  assert.deepEqual(
+    describeFacets(text, facets).map((facet) => facet.feature.tag),
+    ['ランダム書写', 'wagahai_12']
+  );
+});
+
+test('tags keep 々, full-width digits, CJK Extension A and surrogate-pair kanji', () => {
+  const { context } = loadCode();
+  const text = '#佐々木 #第１２回 #㐂 #𠮷野';
+
+  const tags = plain(context.extractFacets(text).map((facet) => facet.features[0].tag));
+
+  assert.deepEqual(tags, ['佐々木', '第１２回', '㐂', '𠮷野']);
+});
+
+test('links stop before trailing punctuation and Japanese text', () => {
+  const { context } = loadCode();
+  const text =
+    '書写（https://rmc-8.com/shosha/?book_id=a&sentence_id=1）。' +
+    '詳しくはhttps://example.com/a(b).';
+
+  const links = describeFacets(text, context.extractFacets(text));
+
+  assert.deepEqual(
+    links.map((link) => link.span),
+    ['https://rmc-8.com/shosha/?book_id=a&sentence_id=1', 'https://example.com/a(b)']
+  );
+  links.forEach((link) => assert.equal(link.feature.uri, link.span));
+});
+
+test('a # inside a link does not produce an overlapping tag', () => {
+  const { context } = loadCode();
+  const text = 'https://example.com/page#section #tag';
+
+  const facets = describeFacets(text, context.extractFacets(text));
+
+  assert.deepEqual(
+    facets.map((facet) => facet.span),
+    ['https://example.com/page#section', '#tag']
+  );
+});
+
+test('mentions resolve to DIDs and unknown handles are left as text', () => {
+  const { context, server } = loadCode();
+  server.on('get', 'https://bsky.social/xrpc/com.atproto.identity.resolveHandle', (request) =>
+    request.url.endsWith('handle=rmc8.bsky.social')
+      ? { body: { did: 'did:plc:rmc8' } }
+      : { status: 400, body: { error: 'InvalidRequest' } }
+  );
+  const text = '@rmc8.bsky.social さんと @nobody.example さん';
+
+  const facets = describeFacets(text, context.extractFacets(text));
+
+  assert.deepEqual(facets, [
+    {
+      span: '@rmc8.bsky.social',
+      feature: { $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:rmc8' },
+    },
+  ]);
+});
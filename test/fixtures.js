@@ -0,0 +1,148 @@
+'use strict';
+
+/**
+ * Sentences, credentials and fake service routes shared by the test files
+ * Each file passes only the routes and rows its own tests change
+ */
+
+const { DEFAULT_NOW, createFakeJwt, createFakePng } = require('./gas-fakes');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SENTENCE = {
+  sentence_text: '吾輩は猫である。名前はまだ無い。',
+  book_id: 'natsume-wagahai',
+  sentence_id: 12,
+  title: '吾輩は猫である',
+  author: '夏目漱石',
+  char_count: 16,
+  card_url: 'https://rmc-8.com/shosha/card.png',
+};
+
+const ENGLISH_SENTENCE = {
+  sentence_text: 'It was the best of times, it was the worst of times.',
+  book_id: 'two-cities',
+  sentence_id: 3,
+  title: 'A Tale of Two Cities',
+  author: 'Charles Dickens',
+  word_count: 12,
+};
+
+const X_CREDENTIALS = {
+  X_RND_SHOSHA_API_KEY: 'x-key',
+  X_RND_SHOSHA_API_KEY_SECRET: 'x-secret',
+  X_RND_SHOSHA_ACCESS_TOKEN: 'x-token',
+  X_RND_SHOSHA_ACCESS_TOKEN_SECRET: 'x-token-secret',
+};
+
+const BLUESKY_CREDENTIALS = {
+  BSKY_HANDLE: 'bot.example.com',
+  BSKY_RND_SHOSHA_APP_PASS: 'app-password',
+};
+
+const CREDENTIALS = { ...X_CREDENTIALS, ...BLUESKY_CREDENTIALS };
+
+const BLUESKY_POST_URI = 'at://did:plc:bot/app.bsky.feed.post/3kpost';
+
+/**
+ * Register the sentence API, OGP image, X and Bluesky routes
+ * overrides maps a route name to a handler used in place of the default; the router
+ * takes the first matching route, so routes a file adds afterwards must not overlap these
+ */
+function setUpServers(environment, overrides = {}) {
+  const { clock, server } = environment;
+  const session = () => ({
+    body: {
+      accessJwt: createFakeJwt(clock.now + 2 * 60 * 60 * 1000),
+      refreshJwt: createFakeJwt(clock.now + 60 * DAY_MS),
+      did: 'did:plc:bot',
+    },
+  });
+
+  const routes = {
+    sentence: ['get', 'https://rmc-8.com/api/random-shosha', () => ({ body: SENTENCE })],
+    ogImage: [
+      'get',
+      'https://rmc-8.com/api/og-shosha',
+      () => ({ body: createFakePng(), contentType: 'image/png' }),
+    ],
+    xMediaUpload: [
+      'post',
+      'https://api.twitter.com/2/media/upload',
+      () => ({ body: { data: { id: 'm1' } } }),
+    ],
+    xMediaMetadata: ['post', 'https://api.twitter.com/2/media/metadata', () => ({ body: {} })],
+    tweets: [
+      'post',
+      'https://api.twitter.com/2/tweets',
+      () => ({ status: 201, body: { data: { id: '1800000000000000001' } } }),
+    ],
+    blueskySession: ['post', 'https://bsky.social/xrpc/com.atproto.server.createSession', session],
+    blueskyRefresh: ['post', 'https://bsky.social/xrpc/com.atproto.server.refreshSession', session],
+    uploadBlob: [
+      'post',
+      'https://bsky.social/xrpc/com.atproto.repo.uploadBlob',
+      (request) => ({
+        body: {
+          blob: {
+            $type: 'blob',
+            ref: { $link: 'bafkreiimage' },
+            mimeType: request.headers['Content-Type'],
+            size: request.payload.length,
+          },
+        },
+      }),
+    ],
+    createRecord: [
+      'post',
+      'https://bsky.social/xrpc/com.atproto.repo.createRecord',
+      () => ({ body: { uri: BLUESKY_POST_URI, cid: 'bafyreipost' } }),
+    ],
+  };
+
+  for (const [name, [method, urlPrefix, handler]] of Object.entries(routes)) {
+    server.on(method, urlPrefix, overrides[name] || handler);
+  }
+  return server;
+}
+
+/**
+ * PostLog row for a post given as { lang, book_id, ..., account, platform, post_id, daysAgo }
+ * status defaults to success and posted_at is daysAgo days before now
+ */
+function toPostLogRow(environment, post) {
+  const fields = { status: 'success', ...post };
+  return environment
+    .evaluate('POST_LOG_HEADERS')
+    .map((header) =>
+      header === 'posted_at' ? new Date(DEFAULT_NOW - post.daysAgo * DAY_MS) : fields[header] ?? ''
+    );
+}
+
+/**
+ * Create the PostLog sheet with one row per post
+ * post_id is formatted as text first, as appendRunToPostLog does
+ */
+function seedPostLog(environment, posts) {
+  const headers = environment.evaluate('POST_LOG_HEADERS');
+  const postLog = environment.spreadsheet.insertSheet('PostLog');
+  postLog.appendRow(headers);
+  posts.forEach((post) => {
+    postLog.getRange(postLog.getLastRow() + 1, headers.indexOf('post_id') + 1).setNumberFormat('@');
+    postLog.appendRow(toPostLogRow(environment, post));
+  });
+  return postLog;
+}
+
+module.exports = {
+  BLUESKY_CREDENTIALS,
+  BLUESKY_POST_URI,
+  CREDENTIALS,
+  DAY_MS,
+  ENGLISH_SENTENCE,
+  SENTENCE,
+  X_CREDENTIALS,
+  seedPostLog,
+  setUpServers,
+  toPostLogRow,
+};
@@ -0,0 +1,461 @@
+'use strict';
+
+/**
+ * In-memory fakes of the Apps Script services used by src/Code.ts
+ * The compiled dist/Code.js runs in a vm context whose globals are these fakes
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const vm = require('vm');
+
+const CODE_PATH = path.join(__dirname, '..', 'dist', 'Code.js');
+const DEFAULT_NOW = Date.parse('2025-01-15T20:00:00Z');
+const WEB_APP_URL = 'https://script.google.com/macros/s/fake/exec';
+
+// GAS byte arrays are signed (-128..127)
+function toSignedBytes(buffer) {
+  return Array.from(buffer, (byte) => (byte > 127 ? byte - 256 : byte));
+}
+
+function toBuffer(data) {
+  if (Buffer.isBuffer(data)) {
+    return data;
+  }
+  if (typeof data === 'string') {
+    return Buffer.from(data, 'utf8');
+  }
+  return Buffer.from(Array.from(data, (byte) => byte & 0xff));
+}
+
+function createBlob(data, contentType = null, name = null) {
+  const buffer = toBuffer(data);
+  const blob = {
+    isFakeBlob: true,
+    buffer,
+    getBytes: () => toSignedBytes(buffer),
+    getDataAsString: () => buffer.toString('utf8'),
+    getContentType: () => contentType,
+    setContentType: (type) => {
+      contentType = type;
+      return blob;
+    },
+    getName: () => name,
+    setName: (value) => {
+      name = value;
+      return blob;
+    },
+  };
+  return blob;
+}
+
+// Apps Script rejects a single property value over 9KB
+const PROPERTY_VALUE_LIMIT_BYTES = 9 * 1024;
+
+function createProperties(initial = {}) {
+  const store = { ...initial };
+  return {
+    store,
+    getProperty: (key) => (Object.prototype.hasOwnProperty.call(store, key) ? store[key] : null),
+    setProperty: (key, value) => {
+      if (Buffer.byteLength(String(value), 'utf8') > PROPERTY_VALUE_LIMIT_BYTES) {
+        throw new Error(`Argument too large: value of ${key}`);
+      }
+      store[key] = String(value);
+    },
+    deleteProperty: (key) => {
+      delete store[key];
+    },
+    getProperties: () => ({ ...store }),
+    getKeys: () => Object.keys(store),
+  };
+}
+
+/**
+ * Clock shared by Date, Utilities.sleep and timestamps; sleeping advances it instantly
+ */
+function createClock(now = DEFAULT_NOW) {
+  const clock = { now };
+  class FakeDate extends Date {
+    constructor(...args) {
+      super(...(args.length === 0 ? [clock.now] : args));
+    }
+
+    static now() {
+      return clock.now;
+    }
+  }
+  clock.Date = FakeDate;
+  return clock;
+}
+
+function formatDate(date, timeZone, format) {
+  const parts = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'longOffset',
+  })
+    .formatToParts(date)
+    .forEach((part) => {
+      parts[part.type] = part.value;
+    });
+
+  const offset = parts.timeZoneName.replace('GMT', '').replace(':', '') || '+0000';
+  const tokens = {
+    yyyy: parts.year,
+    MM: parts.month,
+    dd: parts.day,
+    HH: parts.hour,
+    H: String(Number(parts.hour)),
+    mm: parts.minute,
+    m: String(Number(parts.minute)),
+    ss: parts.second,
+    Z: offset,
+  };
+  return format.replace(/yyyy|MM|dd|HH|H|mm|m|ss|Z/g, (token) => tokens[token]);
+}
+
+function createUtilities(clock) {
+  let uuidCount = 0;
+  return {
+    MacAlgorithm: { HMAC_SHA_1: 'sha1', HMAC_SHA_256: 'sha256' },
+    newBlob: (data, contentType, name) => createBlob(data, contentType, name),
+    computeHmacSignature: (algorithm, value, key) =>
+      toSignedBytes(crypto.createHmac(algorithm, key).update(value, 'utf8').digest()),
+    base64Encode: (data) => toBuffer(data).toString('base64'),
+    base64DecodeWebSafe: (data) => toSignedBytes(Buffer.from(data, 'base64url')),
+    formatDate,
+    getUuid: () => {
+      uuidCount += 1;
+      return `00000000-0000-4000-8000-${String(uuidCount).padStart(12, '0')}`;
+    },
+    sleep: (ms) => {
+      clock.now += ms;
+    },
+  };
+}
+
+function createResponse({ status = 200, body = '', headers = {}, contentType = null }) {
+  let bytes;
+  let type;
+  if (Buffer.isBuffer(body)) {
+    bytes = body;
+    type = contentType || 'application/octet-stream';
+  } else if (typeof body === 'string') {
+    bytes = Buffer.from(body, 'utf8');
+    type = contentType || 'text/plain';
+  } else {
+    bytes = Buffer.from(JSON.stringify(body), 'utf8');
+    type = contentType || 'application/json';
+  }
+
+  return {
+    getResponseCode: () => status,
+    getContentText: () => bytes.toString('utf8'),
+    getHeaders: () => ({ ...headers }),
+    getBlob: () => createBlob(bytes, type),
+  };
+}
+
+/**
+ * Scripted HTTP server: handlers are matched by method and URL prefix, every request is recorded
+ * A handler returns { status, body, headers, contentType }; body objects are sent as JSON
+ */
+function createFakeServer() {
+  const routes = [];
+  const requests = [];
+
+  const server = {
+    requests,
+    on(method, urlPrefix, handler) {
+      routes.push({ method: method.toLowerCase(), urlPrefix, handler });
+      return server;
+    },
+    requestsTo(urlPrefix) {
+      return requests.filter((request) => request.url.startsWith(urlPrefix));
+    },
+    fetch(url, options = {}) {
+      const method = (options.method || 'get').toLowerCase();
+      const request = {
+        url,
+        method,
+        headers: { ...(options.headers || {}) },
+        contentType: options.contentType || null,
+        payload: options.payload,
+        json() {
+          return JSON.parse(options.payload);
+        },
+      };
+      requests.push(request);
+
+      const route = routes.find(
+        (candidate) => candidate.method === method && url.startsWith(candidate.urlPrefix)
+      );
+      if (!route) {
+        return createResponse({ status: 404, body: `No fake route for ${method} ${url}` });
+      }
+      return createResponse(route.handler(request));
+    },
+  };
+  return server;
+}
+
+/**
+ * Spreadsheet keeping each sheet as a 2D array of cell values
+ * Like Sheets, numeric strings are stored as numbers unless the cell is formatted as text ('@')
+ */
+function createFakeSpreadsheet() {
+  const sheets = {};
+
+  const createSheet = (name) => {
+    const sheet = {
+      name,
+      rows: [],
+      formats: {},
+      appendRow: (row) => {
+        const rowIndex = sheet.rows.length + 1;
+        sheet.rows.push(row.map((value, index) => toCellValue(sheet, rowIndex, index + 1, value)));
+        return sheet;
+      },
+      setFrozenRows: () => sheet,
+      getLastRow: () => sheet.rows.length,
+      getDataRange: () => ({
+        getValues: () => sheet.rows.map((row) => [...row]),
+        getDisplayValues: () => sheet.rows.map((row) => row.map(toDisplayValue)),
+      }),
+      getRange: (row, column, numRows = 1, numColumns = 1) => ({
+        setValues: (values) => {
+          assertShape(values, numRows, numColumns);
+          values.forEach((value, offset) => {
+            const target = (sheet.rows[row - 1 + offset] = sheet.rows[row - 1 + offset] || []);
+            const cells = value.map((cell, index) =>
+              toCellValue(sheet, row + offset, column + index, cell)
+            );
+            target.splice(column - 1, numColumns, ...cells);
+          });
+        },
+        setNumberFormat: (format) => {
+          for (let rowOffset = 0; rowOffset < numRows; rowOffset++) {
+            for (let columnOffset = 0; columnOffset < numColumns; columnOffset++) {
+              sheet.formats[`${row + rowOffset}:${column + columnOffset}`] = format;
+            }
+          }
+        },
+      }),
+      clearContents: () => {
+        sheet.rows = [];
+        return sheet;
+      },
+    };
+    return sheet;
+  };
+
+  return {
+    sheets,
+    getSheetByName: (name) => sheets[name] || null,
+    insertSheet: (name) => (sheets[name] = createSheet(name)),
+  };
+}
+
+function toCellValue(sheet, row, column, value) {
+  const isText = sheet.formats[`${row}:${column}`] === '@';
+  return typeof value === 'string' && !isText && /^-?\d+(\.\d+)?$/.test(value)
+    ? Number(value)
+    : value;
+}
+
+// Numbers too large to hold exactly are shown in scientific notation, as Sheets does
+function toDisplayValue(value) {
+  if (typeof value === 'number' && Math.abs(value) > Number.MAX_SAFE_INTEGER) {
+    return value.toExponential().toUpperCase();
+  }
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+// Sheets rejects setValues when the array does not match the range
+function assertShape(values, numRows, numColumns) {
+  if (values.length !== numRows || values.some((row) => row.length !== numColumns)) {
+    throw new Error(`Range is ${numRows}x${numColumns} but data does not match`);
+  }
+}
+
+/**
+ * ScriptApp with time-based triggers recorded as plain objects
+ */
+function createFakeScriptApp() {
+  const triggers = [];
+  let created = 0;
+
+  const scriptApp = {
+    triggers,
+    WeekDay: {
+      SUNDAY: 'SUNDAY',
+      MONDAY: 'MONDAY',
+      TUESDAY: 'TUESDAY',
+      WEDNESDAY: 'WEDNESDAY',
+      THURSDAY: 'THURSDAY',
+      FRIDAY: 'FRIDAY',
+      SATURDAY: 'SATURDAY',
+    },
+    getService: () => ({ getUrl: () => WEB_APP_URL }),
+    getProjectTriggers: () => [...triggers],
+    deleteTrigger: (trigger) => {
+      const index = triggers.indexOf(trigger);
+      if (index >= 0) {
+        triggers.splice(index, 1);
+      }
+    },
+    newTrigger: (handler) => {
+      const schedule = {};
+      const set = (key) => (value) => {
+        schedule[key] = value;
+        return builder;
+      };
+      const builder = {
+        timeBased: () => builder,
+        atHour: set('hour'),
+        nearMinute: set('minute'),
+        everyDays: set('everyDays'),
+        everyHours: set('everyHours'),
+        onWeekDay: set('weekDay'),
+        create: () => {
+          created += 1;
+          const id = `trigger-${created}`;
+          const trigger = {
+            handler,
+            schedule,
+            getHandlerFunction: () => handler,
+            getUniqueId: () => id,
+            getEventType: () => 'CLOCK',
+          };
+          triggers.push(trigger);
+          return trigger;
+        },
+      };
+      return builder;
+    },
+  };
+  return scriptApp;
+}
+
+function createHtmlOutput(content) {
+  const output = {
+    content,
+    title: '',
+    getContent: () => content,
+    setTitle: (title) => {
+      output.title = title;
+      return output;
+    },
+  };
+  return output;
+}
+
+/**
+ * Build a vm context with fake GAS globals and load the compiled script into it
+ */
+function loadCode({
+  scriptProperties = {},
+  userProperties = {},
+  now = DEFAULT_NOW,
+  activeUser = '',
+} = {}) {
+  const clock = createClock(now);
+  const spreadsheet = createFakeSpreadsheet();
+  const server = createFakeServer();
+  const logs = [];
+  const sentEmails = [];
+  const scriptApp = createFakeScriptApp();
+  const environment = {
+    scriptApp,
+    clock,
+    server,
+    logs,
+    sentEmails,
+    spreadsheet,
+    scriptProperties: createProperties(scriptProperties),
+    userProperties: createProperties(userProperties),
+  };
+
+  const context = vm.createContext({
+    Date: clock.Date,
+    Logger: {
+      log: (message) => {
+        logs.push(String(message));
+      },
+    },
+    UrlFetchApp: { fetch: (url, options) => server.fetch(url, options) },
+    Utilities: createUtilities(clock),
+    PropertiesService: {
+      getScriptProperties: () => environment.scriptProperties,
+      getUserProperties: () => environment.userProperties,
+    },
+    Session: {
+      getScriptTimeZone: () => 'Asia/Tokyo',
+      getActiveUser: () => ({ getEmail: () => activeUser }),
+    },
+    HtmlService: { createHtmlOutput },
+    SpreadsheetApp: { openById: () => spreadsheet },
+    ScriptApp: scriptApp,
+    MailApp: {
+      sendEmail: (recipient, subject, body) => {
+        sentEmails.push({ recipient, subject, body });
+      },
+    },
+  });
+
+  vm.runInContext(fs.readFileSync(CODE_PATH, 'utf8'), context, { filename: CODE_PATH });
+  environment.context = context;
+  // Top-level consts are not properties of the vm global, so expose them by evaluation
+  environment.evaluate = (expression) => vm.runInContext(expression, context);
+  return environment;
+}
+
+/**
+ * Copy a value out of the vm realm so deepStrictEqual does not trip over foreign prototypes
+ */
+function plain(value) {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Unsigned JWT with an exp claim, enough for the Bluesky session cache
+ */
+function createFakeJwt(expiresAtMs) {
+  const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return [
+    encode({ alg: 'none', typ: 'JWT' }),
+    encode({ exp: Math.floor(expiresAtMs / 1000) }),
+    'signature',
+  ].join('.');
+}
+
+// 1200x630 PNG header; only the IHDR chunk is read by the code under test
+function createFakePng(width = 1200, height = 630) {
+  const png = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(png, 0);
+  png.writeUInt32BE(13, 8);
+  png.write('IHDR', 12, 'ascii');
+  png.writeUInt32BE(width, 16);
+  png.writeUInt32BE(height, 20);
+  return png;
+}
+
+module.exports = {
+  DEFAULT_NOW,
+  createBlob,
+  createFakeJwt,
+  createFakePng,
+  createFakeServer,
+  formatDate,
+  loadCode,
+  plain,
+};
@@ -0,0 +1,126 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { loadCode } = require('./gas-fakes');
+const { SENTENCE } = require('./fixtures');
+
+const FAMILY = '👨‍👩‍👧';
+const URL = 'https://rmc-8.com/shosha/random_shosha/?book_id=natsume-wagahai&sentence_id=12';
+
+const { context, evaluate } = loadCode();
+
+const X_LENGTHS = [
+  ['Latin text counts 1 per character', 'abc def', 7],
+  ['CJK text counts 2 per character', '吾輩は猫である', 14],
+  ['an emoji counts 2', '👍', 2],
+  // Each code point is weighted, which overcounts a sequence but never lets a post run long
+  ['a ZWJ sequence counts its emoji and joiners', FAMILY, 8],
+  ['a URL counts 23 whatever its length', `see ${URL}`, 27],
+  ['280 Latin characters', 'a'.repeat(280), 280],
+  ['140 CJK characters', '吾'.repeat(140), 280],
+  ['140 CJK characters and one more', `${'吾'.repeat(140)}a`, 281],
+];
+
+for (const [name, text, expected] of X_LENGTHS) {
+  test(`countXLength: ${name}`, () => {
+    assert.equal(context.countXLength(text), expected);
+  });
+}
+
+const BLUESKY_LENGTHS = [
+  ['CJK text counts 1 per character', '吾輩は猫である', 7],
+  ['a ZWJ sequence is one grapheme', FAMILY, 1],
+  ['a skin tone joins its emoji', '👍🏽', 1],
+  ['combining marks join their base', 'éが', 2],
+  ['a URL counts in full', URL, Array.from(URL).length],
+  ['300 CJK characters', 'あ'.repeat(300), 300],
+  ['300 emoji sequences', FAMILY.repeat(300), 300],
+];
+
+for (const [name, text, expected] of BLUESKY_LENGTHS) {
+  test(`countBlueskyLength: ${name}`, () => {
+    assert.equal(context.countBlueskyLength(text), expected);
+  });
+}
+
+const X_LIMIT = () => evaluate('X_TEXT_LIMIT');
+const BLUESKY_LIMIT = () => evaluate('BLUESKY_TEXT_LIMIT');
+const withUrl = (value) => `${value} https://example.com`;
+
+const PREFIXES = [
+  ['keeps as many Latin characters as fit', 'abcdefghij', withUrl, 30, X_LIMIT, 'abcd…'],
+  ['keeps as many CJK characters as fit', '吾輩は猫である', withUrl, 30, X_LIMIT, '吾輩…'],
+  ['drops trailing spaces before the ellipsis', 'ab cdefgh', withUrl, 29, X_LIMIT, 'ab…'],
+  ['returns null when one character does not fit', 'abcdef', withUrl, 25, X_LIMIT, null],
+  [
+    'never cuts inside a ZWJ sequence',
+    FAMILY.repeat(4),
+    (value) => value,
+    3,
+    BLUESKY_LIMIT,
+    `${FAMILY}${FAMILY}…`,
+  ],
+];
+
+for (const [name, value, render, maxLength, limit, expected] of PREFIXES) {
+  test(`findLongestFittingPrefix ${name}`, () => {
+    const result = context.findLongestFittingPrefix(value, render, {
+      ...limit(),
+      maxLength,
+    });
+    assert.equal(result, expected);
+  });
+}
+
+/**
+ * Sentence whose title pads the rendered share text to exactly length
+ */
+function padTitle(pipeline, platform, limit, length) {
+  const untitled = pipeline.generateShareContent({ ...SENTENCE, title: '' }, platform);
+  const base = limit.measure(untitled.text);
+  return { ...SENTENCE, title: 'a'.repeat(length - base) };
+}
+
+const FITS = [
+  ['x', X_LIMIT, 280],
+  ['bluesky', BLUESKY_LIMIT, 300],
+];
+
+for (const [platform, getLimit, maxLength] of FITS) {
+  test(`fitShareContent keeps ${platform} text of exactly ${maxLength} unchanged`, () => {
+    const pipeline = evaluate('JAPANESE_PIPELINE');
+    const limit = getLimit();
+    const data = padTitle(pipeline, platform, limit, maxLength);
+
+    const content = context.fitShareContent(pipeline, data, platform, limit);
+
+    assert.equal(limit.measure(content.text), maxLength);
+    assert.ok(content.text.includes(data.title));
+  });
+
+  test(`fitShareContent shortens the title of ${platform} text one over ${maxLength}`, () => {
+    const pipeline = evaluate('JAPANESE_PIPELINE');
+    const limit = getLimit();
+    const data = padTitle(pipeline, platform, limit, maxLength + 1);
+
+    const content = context.fitShareContent(pipeline, data, platform, limit);
+
+    assert.ok(limit.measure(content.text) <= maxLength);
+    assert.ok(!content.text.includes(data.title));
+    assert.ok(content.text.includes(data.title.slice(0, 10)));
+    assert.ok(content.text.includes(URL));
+  });
+}
+
+test('fitShareContent shortens a CJK-only sentence and keeps the hashtags and URL', () => {
+  const pipeline = evaluate('JAPANESE_PIPELINE');
+  const data = { ...SENTENCE, title: '長'.repeat(200), author: '長'.repeat(200) };
+
+  const content = context.fitShareContent(pipeline, data, 'x', X_LIMIT());
+
+  assert.ok(context.countXLength(content.text) <= 280);
+  assert.ok(content.text.includes('…'));
+  assert.ok(content.text.includes('#ランダム書写 #natsumewagahai_12'));
+  assert.ok(content.text.includes(URL));
+});
@@ -0,0 +1,69 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { loadCode } = require('./gas-fakes');
+const { setUpServers } = require('./fixtures');
+
+const INSTANCE_URL = 'https://mastodon.example';
+const STATUSES_URL = `${INSTANCE_URL}/api/v1/statuses`;
+const MEDIA_STATUS_URL = `${INSTANCE_URL}/api/v1/media/m1`;
+
+/**
+ * Mastodon instance whose answers a test scripts through behaviour
+ */
+function setUp(behaviour) {
+  const environment = loadCode({
+    scriptProperties: {
+      MASTODON_INSTANCE_URL: `${INSTANCE_URL}/`,
+      MASTODON_ACCESS_TOKEN: 'mastodon-token',
+    },
+  });
+  setUpServers(environment)
+    .on('post', `${INSTANCE_URL}/api/v2/media`, () => ({ status: 202, body: { id: 'm1' } }))
+    .on('get', MEDIA_STATUS_URL, () => ({
+      status: behaviour.mediaStatuses.shift() || 206,
+      body: { id: 'm1' },
+    }))
+    .on('post', STATUSES_URL, () => ({
+      status: behaviour.statusStatuses.shift() || 200,
+      body: {
+        id: '110000000000000001',
+        url: 'https://mastodon.example/@shosha/110000000000000001',
+        created_at: '2024-06-01T00:00:00.000Z',
+      },
+    }));
+  return environment;
+}
+
+test('a retried status reuses its Idempotency-Key and attaches processed media', () => {
+  const { context, server, logs } = setUp({ mediaStatuses: [206, 200], statusStatuses: [503] });
+
+  context.postToMastodonJapanese();
+
+  assert.equal(server.requestsTo(MEDIA_STATUS_URL).length, 2);
+  assert.ok(logs.includes('Mastodon media processed: m1'));
+
+  const statuses = server.requestsTo(STATUSES_URL);
+  assert.equal(statuses.length, 2);
+  const [first, retry] = statuses.map((request) => request.headers['Idempotency-Key']);
+  assert.ok(first);
+  assert.equal(retry, first);
+  assert.equal(statuses[1].headers.Authorization, 'Bearer mastodon-token');
+
+  const payload = statuses[1].json();
+  assert.deepEqual(payload.media_ids, ['m1']);
+  assert.equal(payload.language, 'ja');
+  assert.ok(payload.status.includes('#ランダム書写'));
+});
+
+test('media still processing after the last check is left off the status', () => {
+  const { context, server, logs } = setUp({ mediaStatuses: [], statusStatuses: [] });
+
+  context.postToMastodonJapanese();
+
+  assert.equal(server.requestsTo(MEDIA_STATUS_URL).length, 5);
+  assert.ok(logs.includes('Mastodon media still processing after 5 checks'));
+  const [status] = server.requestsTo(STATUSES_URL);
+  assert.equal(status.json().media_ids, undefined);
+});
@@ -0,0 +1,146 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { loadCode, plain } = require('./gas-fakes');
+const {
+  BLUESKY_POST_URI: BLUESKY_URI,
+  DAY_MS,
+  X_CREDENTIALS,
+  seedPostLog,
+  toPostLogRow,
+} = require('./fixtures');
+
+const WAGAHAI = {
+  lang: 'ja',
+  book_id: 'wagahai',
+  sentence_id: 12,
+  title: '吾輩は猫である',
+  author: '夏目漱石',
+};
+const KOKORO = { lang: 'ja', book_id: 'kokoro', sentence_id: 3, title: 'こころ', author: '夏目漱石' };
+const X = { account: 'X', platform: 'x' };
+const BLUESKY = { account: 'Bluesky', platform: 'bluesky' };
+
+const POSTS = [
+  { ...WAGAHAI, ...X, post_id: '1800000000000000001', daysAgo: 1 },
+  { ...WAGAHAI, ...BLUESKY, post_id: BLUESKY_URI, daysAgo: 1 },
+  { ...KOKORO, ...X, post_id: '1800000000000000002', daysAgo: 2 },
+  {
+    lang: 'ja',
+    book_id: 'rashomon',
+    sentence_id: 1,
+    title: '羅生門',
+    author: '芥川龍之介',
+    ...X,
+    daysAgo: 1,
+    status: 'failed',
+    error: 'Forbidden',
+  },
+  {
+    lang: 'ja',
+    book_id: 'old',
+    sentence_id: 1,
+    title: '古い本',
+    author: '誰か',
+    ...X,
+    post_id: '1700000000000000001',
+    daysAgo: 30,
+  },
+];
+
+function setUp() {
+  const environment = loadCode({
+    scriptProperties: { ...X_CREDENTIALS, POST_LOG_SPREADSHEET_ID: 'sheet-id' },
+  });
+  seedPostLog(environment, POSTS);
+
+  environment.server
+    .on('get', 'https://api.twitter.com/2/tweets?', () => ({
+      body: {
+        data: [
+          {
+            id: '1800000000000000001',
+            public_metrics: { like_count: 10, retweet_count: 2, reply_count: 1, quote_count: 0 },
+          },
+          {
+            id: '1800000000000000002',
+            public_metrics: { like_count: 1, retweet_count: 0, reply_count: 0, quote_count: 0 },
+          },
+        ],
+      },
+    }))
+    .on('get', 'https://public.api.bsky.app/xrpc/app.bsky.feed.getPosts', () => ({
+      body: { posts: [{ uri: BLUESKY_URI, likeCount: 5, repostCount: 1, replyCount: 0 }] },
+    }));
+  return environment;
+}
+
+test('metrics are fetched for recent successful X and Bluesky posts', () => {
+  const environment = setUp();
+  const { context, server, spreadsheet } = environment;
+
+  context.collectEngagementMetrics();
+
+  const [lookup] = server.requestsTo('https://api.twitter.com/2/tweets?');
+  assert.equal(
+    lookup.url,
+    'https://api.twitter.com/2/tweets?ids=1800000000000000001%2C1800000000000000002' +
+      '&tweet.fields=public_metrics'
+  );
+  assert.match(lookup.headers.Authorization, /^OAuth /);
+  const [getPosts] = server.requestsTo('https://public.api.bsky.app/');
+  assert.equal(getPosts.url.split('?')[1], `uris=${encodeURIComponent(BLUESKY_URI)}`);
+
+  const snapshots = spreadsheet.getSheetByName('Metrics').rows.slice(1);
+  assert.deepEqual(
+    snapshots.map((row) => [row[6], row[7], row[8], row[9], row[10]]),
+    [
+      ['X', '1800000000000000001', 10, 2, 1],
+      ['X', '1800000000000000002', 1, 0, 0],
+      ['Bluesky', BLUESKY_URI, 5, 1, 0],
+    ]
+  );
+});
+
+test('a tweet ID that Sheets stored as a number is skipped instead of looked up', () => {
+  const environment = setUp();
+  const { context, server, spreadsheet, logs } = environment;
+  const postLog = spreadsheet.getSheetByName('PostLog');
+  postLog.rows = postLog.rows.slice(0, 1);
+  postLog.formats = {};
+  postLog.appendRow(toPostLogRow(environment, POSTS[0]));
+
+  context.collectEngagementMetrics();
+
+  assert.equal(server.requests.length, 0);
+  assert.ok(logs.includes('Skipping X post 1.8E+18: not a tweet ID'));
+});
+
+test('the summary sums the latest snapshot of each post by book, author and language', () => {
+  const environment = setUp();
+  const { context, clock, spreadsheet } = environment;
+
+  context.collectEngagementMetrics();
+  clock.now += DAY_MS;
+  context.collectEngagementMetrics();
+
+  assert.equal(spreadsheet.getSheetByName('Metrics').rows.length, 7);
+  const summary = spreadsheet.getSheetByName('MetricsSummary').rows;
+  assert.deepEqual(summary[0], plain(environment.evaluate('METRICS_SUMMARY_HEADERS')));
+  assert.deepEqual(summary.slice(1), [
+    ['book', '吾輩は猫である (wagahai)', 2, 15, 3, 1, 0, 19, 9.5],
+    ['book', 'こころ (kokoro)', 1, 1, 0, 0, 0, 1, 1],
+    ['author', '夏目漱石', 3, 16, 3, 1, 0, 20, 6.67],
+    ['lang', 'ja', 3, 16, 3, 1, 0, 20, 6.67],
+  ]);
+});
+
+test('without a spreadsheet nothing is fetched', () => {
+  const { context, server, logs } = loadCode();
+
+  context.collectEngagementMetrics();
+
+  assert.equal(server.requests.length, 0);
+  assert.ok(logs.includes('Engagement metrics need POST_LOG_SPREADSHEET_ID'));
+});
@@ -0,0 +1,55 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { loadCode } = require('./gas-fakes');
+const { setUpServers } = require('./fixtures');
+
+const INSTANCE_URL = 'https://misskey.example';
+const DRIVE_URL = `${INSTANCE_URL}/api/drive/files/create`;
+const NOTES_URL = `${INSTANCE_URL}/api/notes/create`;
+
+function setUp(noteStatus = 200) {
+  const environment = loadCode({
+    scriptProperties: {
+      MISSKEY_INSTANCE_URL: INSTANCE_URL,
+      MISSKEY_ACCESS_TOKEN: 'misskey-token',
+    },
+  });
+  setUpServers(environment)
+    .on('post', DRIVE_URL, () => ({ body: { id: 'file1' } }))
+    .on('post', NOTES_URL, () => ({
+      status: noteStatus,
+      body: { createdNote: { id: 'note1', createdAt: '2024-06-01T00:00:00.000Z' } },
+    }));
+  return environment;
+}
+
+test('the OGP image is uploaded to Drive before the note that attaches it', () => {
+  const { context, server } = setUp();
+
+  context.postToMisskeyJapanese();
+
+  const urls = server.requests.map((request) => request.url);
+  const upload = urls.indexOf(DRIVE_URL);
+  assert.ok(upload >= 0, 'image was uploaded');
+  assert.ok(upload < urls.indexOf(NOTES_URL));
+
+  const { payload: file } = server.requestsTo(DRIVE_URL)[0];
+  assert.equal(file.i, 'misskey-token');
+  assert.equal(file.comment, '吾輩は猫である。名前はまだ無い。');
+
+  const note = server.requestsTo(NOTES_URL)[0].json();
+  assert.equal(note.i, 'misskey-token');
+  assert.deepEqual(note.fileIds, ['file1']);
+  assert.ok(note.text.includes('#ランダム書写 #natsumewagahai_12'));
+});
+
+test('a failed note is not retried, so no duplicate note can be created', () => {
+  const { context, server, logs } = setUp(500);
+
+  context.postToMisskeyJapanese();
+
+  assert.equal(server.requestsTo(NOTES_URL).length, 1);
+  assert.ok(logs.some((line) => line.startsWith('Misskey post failed (500)')));
+});
@@ -0,0 +1,55 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { loadCode } = require('./gas-fakes');
+
+const WEBHOOK_URL = 'https://hooks.slack.com/services/T000/B000/secret';
+
+const FAILED_REPORT = {
+  label: 'Japanese',
+  lang: 'ja',
+  dryRun: false,
+  sentence: null,
+  results: [
+    { account: 'X', platform: 'x', success: false, error: 'Forbidden', status: 403 },
+    { account: 'Bluesky', platform: 'bluesky', success: true },
+  ],
+};
+
+function setUp(behaviour) {
+  const environment = loadCode({ scriptProperties: { NOTIFY_WEBHOOK_URLS: WEBHOOK_URL } });
+  environment.server.on('post', WEBHOOK_URL, () => ({
+    status: behaviour.webhookStatus,
+    body: 'ok',
+  }));
+  return environment;
+}
+
+test('an undelivered alert is neither retried nor marked as sent', () => {
+  const behaviour = { webhookStatus: 503 };
+  const { context, server, logs } = setUp(behaviour);
+
+  context.notifyRunReport(FAILED_REPORT);
+  assert.equal(server.requestsTo(WEBHOOK_URL).length, 1);
+  assert.ok(logs.includes('Webhook notification: Failed'));
+
+  behaviour.webhookStatus = 200;
+  context.notifyRunReport(FAILED_REPORT);
+  assert.equal(server.requestsTo(WEBHOOK_URL).length, 2);
+  assert.match(server.requestsTo(WEBHOOK_URL)[1].json().text, /Japanese post failed on X/);
+});
+
+test('the same failure is alerted once per suppression window', () => {
+  const { context, clock, server, logs } = setUp({ webhookStatus: 200 });
+
+  context.notifyRunReport(FAILED_REPORT);
+  clock.now += 60 * 60 * 1000;
+  context.notifyRunReport(FAILED_REPORT);
+  assert.equal(server.requestsTo(WEBHOOK_URL).length, 1);
+  assert.ok(logs.includes('Notification suppressed: same failure already alerted'));
+
+  clock.now += 24 * 60 * 60 * 1000;
+  context.notifyRunReport(FAILED_REPORT);
+  assert.equal(server.requestsTo(WEBHOOK_URL).length, 2);
+});
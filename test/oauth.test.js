@@ -0,0 +1,69 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const crypto = require('node:crypto');
+const { test } = require('node:test');
+const { loadCode } = require('./gas-fakes');
+
+const { context } = loadCode();
+
+// OAuth Core 1.0 Appendix A.5.2
+test('generateOAuthSignature matches the OAuth 1.0 specification example', () => {
+  const signature = context.generateOAuthSignature(
+    'GET',
+    'http://photos.example.net/photos',
+    {
+      file: 'vacation.jpg',
+      size: 'original',
+      oauth_consumer_key: 'dpf43f3p2l4k3l03',
+      oauth_token: 'nnch734d00sl2jdk',
+      oauth_signature_method: 'HMAC-SHA1',
+      oauth_timestamp: '1191242096',
+      oauth_nonce: 'kllo9940pd9333jh',
+      oauth_version: '1.0',
+    },
+    'kd94hf93k423kf44',
+    'pfkkdhi9sl3r4s00'
+  );
+
+  assert.equal(signature, 'tR3+Ty81lMeYAr/Fid0kMTYa/WM=');
+});
+
+test('generateOAuthSignature percent-encodes reserved characters per RFC 3986', () => {
+  const signature = context.generateOAuthSignature(
+    'POST',
+    'https://api.twitter.com/2/tweets',
+    { status: "Hello (world)! It's *here*", oauth_nonce: 'nonce' },
+    'consumer secret',
+    'token!secret'
+  );
+
+  // Base string and key written out by hand from RFC 5849 section 3.4.1
+  const baseString =
+    'POST&https%3A%2F%2Fapi.twitter.com%2F2%2Ftweets&' +
+    'oauth_nonce%3Dnonce%26status%3DHello%2520%2528world%2529%2521%2520It%2527s%2520%252Ahere%252A';
+  const expected = crypto
+    .createHmac('sha1', 'consumer%20secret&token%21secret')
+    .update(baseString)
+    .digest('base64');
+  assert.equal(signature, expected);
+});
+
+test('percentEncode escapes the characters encodeURIComponent leaves alone', () => {
+  assert.equal(context.percentEncode("!'()*"), '%21%27%28%29%2A');
+  assert.equal(context.percentEncode('a b~c'), 'a%20b~c');
+});
+
+test('generateOAuthHeader signs with the fake clock and deterministic nonce', () => {
+  const header = context.generateOAuthHeader('POST', 'https://api.twitter.com/2/tweets', {}, {
+    apiKey: 'key',
+    apiSecret: 'secret',
+    accessToken: 'token',
+    accessTokenSecret: 'token-secret',
+  });
+
+  assert.match(header, /^OAuth oauth_consumer_key="key", /);
+  assert.match(header, /oauth_nonce="00000000-0000-4000-8000-000000000001"/);
+  assert.match(header, /oauth_timestamp="1736971200"/);
+  assert.match(header, /oauth_signature="[A-Za-z0-9%]+"/);
+});
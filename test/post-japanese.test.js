@@ -0,0 +1,316 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { createFakeJwt, loadCode } = require('./gas-fakes');
+const { CREDENTIALS, SENTENCE, setUpServers } = require('./fixtures');
+
+const SHARE_URL = 'https://rmc-8.com/shosha/random_shosha/?book_id=natsume-wagahai&sentence_id=12';
+
+/**
+ * Standard routes, with X and Bluesky answers a test can script through behaviour
+ */
+function setUpPostServers(environment, behaviour = {}) {
+  const { sentenceBody = SENTENCE } = behaviour;
+  setUpServers(environment, {
+    sentence: () => ({ body: sentenceBody }),
+    // Read on every request so a test can fix X between runs or script single attempts
+    tweets: () => {
+      const status = (behaviour.tweetStatuses || []).shift() || behaviour.tweetStatus;
+      return status && status !== 201
+        ? { status, body: { title: 'Error' } }
+        : { status: 201, body: { data: { id: '1800000000000000001' } } };
+    },
+    createRecord: () =>
+      (behaviour.recordStatuses || []).shift() === 400
+        ? { status: 400, body: { error: 'ExpiredToken', message: 'Token has expired' } }
+        : { body: { uri: 'at://did:plc:bot/app.bsky.feed.post/3kpost', cid: 'bafyreipost' } },
+  });
+}
+
+test('postJapanese posts to X and Bluesky and skips unconfigured accounts', () => {
+  const environment = loadCode({ scriptProperties: { ...CREDENTIALS } });
+  setUpPostServers(environment);
+  const { context, server, logs } = environment;
+
+  context.postJapanese();
+
+  const [tweet] = server.requestsTo('https://api.twitter.com/2/tweets');
+  assert.ok(tweet, 'tweet was created');
+  assert.match(tweet.headers.Authorization, /^OAuth oauth_consumer_key="x-key"/);
+  const tweetPayload = tweet.json();
+  assert.ok(tweetPayload.text.includes(SHARE_URL));
+  assert.deepEqual(tweetPayload.media, { media_ids: ['m1'] });
+
+  const [altText] = server.requestsTo('https://api.twitter.com/2/media/metadata');
+  assert.equal(altText.json().metadata.alt_text.text, SENTENCE.sentence_text);
+
+  const [createRecord] = server.requestsTo(
+    'https://bsky.social/xrpc/com.atproto.repo.createRecord'
+  );
+  const { repo, record } = createRecord.json();
+  assert.equal(repo, 'did:plc:bot');
+  assert.ok(record.text.includes(SHARE_URL));
+  assert.equal(record.embed.$type, 'app.bsky.embed.external');
+  assert.equal(record.embed.external.uri, SHARE_URL);
+  assert.equal(record.embed.external.thumb.ref.$link, 'bafkreiimage');
+  const link = record.facets.find(
+    (facet) => facet.features[0].$type === 'app.bsky.richtext.facet#link'
+  );
+  const linkedText = Buffer.from(record.text, 'utf8')
+    .subarray(link.index.byteStart, link.index.byteEnd)
+    .toString('utf8');
+  assert.equal(linkedText, SHARE_URL);
+
+  assert.ok(logs.includes('Mastodon post skipped: credentials not configured'));
+  assert.ok(logs.includes('Misskey post skipped: credentials not configured'));
+
+  const history = JSON.parse(environment.scriptProperties.getProperty('POST_HISTORY_JA'));
+  assert.deepEqual(history, [['natsume-wagahai', 12, environment.clock.now / 1000]]);
+  assert.ok(environment.userProperties.getProperty('BSKY_SESSION_bot.example.com'));
+});
+
+test('the post log keeps 19-digit tweet IDs as text and names account and platform', () => {
+  const environment = loadCode({
+    scriptProperties: { ...CREDENTIALS, POST_LOG_SPREADSHEET_ID: 'sheet-id' },
+  });
+  setUpPostServers(environment);
+  const { context, spreadsheet } = environment;
+
+  context.postJapanese();
+
+  const rows = spreadsheet.getSheetByName('PostLog').rows.slice(1);
+  assert.deepEqual(
+    rows.slice(0, 2).map((row) => [row[6], row[7], row[12]]),
+    [
+      ['X', '1800000000000000001', 'x'],
+      ['Bluesky', 'at://did:plc:bot/app.bsky.feed.post/3kpost', 'bluesky'],
+    ]
+  );
+});
+
+test('a rejected tweet does not stop the Bluesky post', () => {
+  const environment = loadCode({ scriptProperties: { ...CREDENTIALS } });
+  setUpPostServers(environment, { tweetStatus: 403 });
+  const { context, server } = environment;
+
+  context.postJapanese();
+
+  // 403 is permanent, so it is not retried
+  assert.equal(server.requestsTo('https://api.twitter.com/2/tweets').length, 1);
+  assert.equal(
+    server.requestsTo('https://bsky.social/xrpc/com.atproto.repo.createRecord').length,
+    1
+  );
+  assert.ok(environment.scriptProperties.getProperty('POST_HISTORY_JA'));
+});
+
+/**
+ * History in the object form used before entries were stored compactly, oldest first
+ */
+function legacyHistory(count) {
+  return Array.from({ length: count }, (_, index) => ({
+    lang: 'ja',
+    book_id: `natsume-soseki-${index}`,
+    sentence_id: index,
+    postedAt: new Date(Date.parse('2025-01-15T00:00:00Z') - index * 60000).toISOString(),
+  })).reverse();
+}
+
+function toStoredEntry(entry) {
+  return [entry.book_id, entry.sentence_id, Date.parse(entry.postedAt) / 1000];
+}
+
+test('a post history in the old object form is kept whole and stored compactly', () => {
+  const history = legacyHistory(100);
+  const environment = loadCode({
+    scriptProperties: { ...CREDENTIALS, POST_HISTORY_JA: JSON.stringify(history) },
+  });
+  setUpPostServers(environment);
+  const { context, scriptProperties } = environment;
+
+  context.postJapanese();
+
+  const stored = JSON.parse(scriptProperties.getProperty('POST_HISTORY_JA'));
+  assert.deepEqual(stored.slice(0, -1), history.map(toStoredEntry));
+  assert.equal(stored[stored.length - 1][0], 'natsume-wagahai');
+});
+
+test('a full post history drops its oldest entries and says so instead of failing', () => {
+  const history = legacyHistory(400);
+  const environment = loadCode({
+    scriptProperties: { ...CREDENTIALS, POST_HISTORY_JA: JSON.stringify(history) },
+  });
+  setUpPostServers(environment);
+  const { context, logs, scriptProperties } = environment;
+
+  context.postJapanese();
+
+  assert.ok(logs.some((line) => line.startsWith('X post result: Success')));
+  assert.ok(logs.some((line) => line.startsWith('Bluesky post result: Success')));
+  const stored = JSON.parse(scriptProperties.getProperty('POST_HISTORY_JA'));
+  const dropped = history.length + 1 - stored.length;
+  assert.ok(dropped > 0);
+  const warning =
+    `Post history ja outgrew one property: dropped the ${dropped} oldest entries ` +
+    'still inside the window, so those sentences may repeat early';
+  assert.ok(logs.includes(warning));
+  assert.deepEqual(stored.slice(0, -1), history.slice(dropped).map(toStoredEntry));
+  assert.equal(stored[stored.length - 1][0], 'natsume-wagahai');
+});
+
+test('a tweet that may have been created is not retried, a rate-limited one is re-signed', () => {
+  const environment = loadCode({ scriptProperties: { ...CREDENTIALS } });
+  const behaviour = { tweetStatuses: [503] };
+  setUpPostServers(environment, behaviour);
+  const { context, server } = environment;
+
+  context.postJapanese();
+  assert.equal(server.requestsTo('https://api.twitter.com/2/tweets').length, 1);
+
+  behaviour.tweetStatuses = [429];
+  context.resumeJapanese();
+  const retried = server.requestsTo('https://api.twitter.com/2/tweets').slice(1);
+  assert.equal(retried.length, 2);
+  const nonce = (request) => request.headers.Authorization.match(/oauth_nonce="([^"]+)"/)[1];
+  assert.notEqual(nonce(retried[0]), nonce(retried[1]));
+});
+
+test('a Bluesky token rejected mid-run is refreshed and the post retried once', () => {
+  const cached = {
+    accessJwt: createFakeJwt(Date.parse('2025-01-15T21:00:00Z')),
+    refreshJwt: createFakeJwt(Date.parse('2025-03-01T00:00:00Z')),
+    did: 'did:plc:bot',
+  };
+  const environment = loadCode({
+    scriptProperties: { ...CREDENTIALS },
+    userProperties: { 'BSKY_SESSION_bot.example.com': JSON.stringify(cached) },
+  });
+  setUpPostServers(environment, { recordStatuses: [400] });
+  const { context, server, logs } = environment;
+
+  context.postJapanese();
+
+  const records = server.requestsTo('https://bsky.social/xrpc/com.atproto.repo.createRecord');
+  assert.equal(records.length, 2);
+  assert.equal(records[0].headers.Authorization, `Bearer ${cached.accessJwt}`);
+  assert.notEqual(records[1].headers.Authorization, records[0].headers.Authorization);
+  const [refresh] = server.requestsTo('https://bsky.social/xrpc/com.atproto.server.refreshSession');
+  assert.equal(refresh.headers.Authorization, `Bearer ${cached.refreshJwt}`);
+  assert.ok(logs.some((line) => line.startsWith('Bluesky post result: Success')));
+});
+
+test('a broken sentence response aborts the run before any platform is called', () => {
+  const environment = loadCode({ scriptProperties: { ...CREDENTIALS } });
+  setUpPostServers(environment, { sentenceBody: '<html>502 Bad Gateway</html>' });
+  const { context, server } = environment;
+
+  context.postJapanese();
+
+  assert.deepEqual(
+    server.requests.map((request) => request.url),
+    ['https://rmc-8.com/api/random-shosha']
+  );
+  assert.equal(environment.scriptProperties.getProperty('POST_HISTORY_JA'), null);
+});
+
+test('a relative card_url, which nothing reads, does not stop the post', () => {
+  const environment = loadCode({ scriptProperties: { ...CREDENTIALS } });
+  setUpPostServers(environment, { sentenceBody: { ...SENTENCE, card_url: '/card.png' } });
+  const { context, server } = environment;
+
+  context.postJapanese();
+
+  assert.equal(server.requestsTo('https://api.twitter.com/2/tweets').length, 1);
+  assert.equal(
+    server.requestsTo('https://bsky.social/xrpc/com.atproto.repo.createRecord').length,
+    1
+  );
+});
+
+test('a retry re-posts the same sentence only to the account that failed', () => {
+  const environment = loadCode({ scriptProperties: { ...CREDENTIALS } });
+  const behaviour = { tweetStatus: 403 };
+  setUpPostServers(environment, behaviour);
+  const { context, server, scriptProperties } = environment;
+
+  context.postJapanese();
+  const pending = JSON.parse(scriptProperties.getProperty('PENDING_RUN_JA'));
+  assert.equal(pending.sentence.sentence_id, 12);
+  assert.equal(pending.accounts.X.status, 'failed');
+  assert.equal(pending.accounts.Bluesky.status, 'posted');
+
+  behaviour.tweetStatus = 201;
+  environment.clock.now += 60 * 60 * 1000;
+  context.resumeJapanese();
+
+  assert.equal(server.requestsTo('https://rmc-8.com/api/random-shosha').length, 1);
+  const tweets = server.requestsTo('https://api.twitter.com/2/tweets');
+  assert.equal(tweets.length, 2);
+  assert.ok(tweets[1].json().text.includes(SHARE_URL));
+  assert.equal(
+    server.requestsTo('https://bsky.social/xrpc/com.atproto.repo.createRecord').length,
+    1
+  );
+  assert.equal(scriptProperties.getProperty('PENDING_RUN_JA'), null);
+  assert.equal(JSON.parse(scriptProperties.getProperty('POST_HISTORY_JA')).length, 1);
+
+  // Nothing left to resume, so no sentence is drawn
+  context.resumeJapanese();
+  assert.equal(server.requestsTo('https://rmc-8.com/api/random-shosha').length, 1);
+});
+
+test('a pending run older than RESUME_MAX_AGE_HOURS is replaced by a fresh draw', () => {
+  // The fake API always returns the same sentence, so let the history accept it again
+  const environment = loadCode({
+    scriptProperties: { ...CREDENTIALS, POST_HISTORY_WINDOW_DAYS: '0' },
+  });
+  const behaviour = { tweetStatus: 403 };
+  setUpPostServers(environment, behaviour);
+  const { context, server, scriptProperties } = environment;
+
+  context.postJapanese();
+  behaviour.tweetStatus = 201;
+  environment.clock.now += 24 * 60 * 60 * 1000;
+  context.postJapanese();
+
+  assert.equal(server.requestsTo('https://rmc-8.com/api/random-shosha').length, 2);
+  assert.equal(
+    server.requestsTo('https://bsky.social/xrpc/com.atproto.repo.createRecord').length,
+    2
+  );
+  assert.equal(scriptProperties.getProperty('PENDING_RUN_JA'), null);
+});
+
+test('a session renewed by one thread reply is used by the replies after it', () => {
+  const environment = loadCode({ scriptProperties: { ...CREDENTIALS, THREAD_MODE: 'true' } });
+  // Long enough for two replies
+  const sentenceBody = { ...SENTENCE, sentence_text: '吾輩は猫である。'.repeat(50) };
+  const staleJwt = createFakeJwt(environment.clock.now + 60 * 60 * 1000);
+  const renewedJwt = createFakeJwt(environment.clock.now + 2 * 60 * 60 * 1000);
+  const refreshJwt = createFakeJwt(Date.parse('2025-03-01T00:00:00Z'));
+  const session = (accessJwt) => ({ body: { accessJwt, refreshJwt, did: 'did:plc:bot' } });
+  let records = 0;
+  setUpServers(environment, {
+    sentence: () => ({ body: sentenceBody }),
+    blueskySession: () => session(staleJwt),
+    blueskyRefresh: () => session(renewedJwt),
+    // The first access token stops working right after the main post
+    createRecord: (request) =>
+      records++ > 0 && request.headers.Authorization === `Bearer ${staleJwt}`
+        ? { status: 400, body: { error: 'ExpiredToken', message: 'Token has expired' } }
+        : { body: { uri: `at://did:plc:bot/app.bsky.feed.post/${records}`, cid: 'bafyreipost' } },
+  });
+  const { context, server } = environment;
+
+  context.postJapanese();
+
+  const tokens = server
+    .requestsTo('https://bsky.social/xrpc/com.atproto.repo.createRecord')
+    .map((request) => request.headers.Authorization.replace('Bearer ', ''));
+  assert.deepEqual(tokens, [staleJwt, staleJwt, renewedJwt, renewedJwt]);
+  assert.equal(
+    server.requestsTo('https://bsky.social/xrpc/com.atproto.server.refreshSession').length,
+    1
+  );
+});
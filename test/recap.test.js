@@ -0,0 +1,186 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { loadCode, plain } = require('./gas-fakes');
+const {
+  BLUESKY_POST_URI: BLUESKY_URI,
+  CREDENTIALS,
+  DAY_MS,
+  seedPostLog,
+  setUpServers,
+} = require('./fixtures');
+
+const WAGAHAI = {
+  lang: 'ja',
+  book_id: 'wagahai',
+  sentence_id: 12,
+  title: '吾輩は猫である',
+  author: '夏目漱石',
+};
+const KOKORO = { lang: 'ja', book_id: 'kokoro', sentence_id: 3, title: 'こころ', author: '夏目漱石' };
+const OLD = { lang: 'ja', book_id: 'old', sentence_id: 1, title: '古い本', author: '誰か' };
+const X = { account: 'X', platform: 'x' };
+const BLUESKY = { account: 'Bluesky', platform: 'bluesky' };
+
+const POSTS = [
+  { ...WAGAHAI, ...X, post_id: '1800000000000000001', daysAgo: 1 },
+  { ...WAGAHAI, ...BLUESKY, post_id: BLUESKY_URI, daysAgo: 1 },
+  { ...KOKORO, ...X, post_id: '1800000000000000002', daysAgo: 2 },
+  { ...OLD, ...X, post_id: '1700000000000000001', daysAgo: 10 },
+];
+
+function setUp(scriptProperties = {}) {
+  const environment = loadCode({
+    scriptProperties: { ...CREDENTIALS, POST_LOG_SPREADSHEET_ID: 'sheet-id', ...scriptProperties },
+  });
+  const behaviour = { tweetStatus: 201 };
+  seedPostLog(environment, POSTS);
+
+  setUpServers(environment, {
+    tweets: () =>
+      behaviour.tweetStatus === 201
+        ? { status: 201, body: { data: { id: '1900000000000000001', text: 'recap' } } }
+        : { status: behaviour.tweetStatus, body: { title: 'Forbidden' } },
+    createRecord: () => ({
+      body: { uri: 'at://did:plc:bot/app.bsky.feed.post/3krecap', cid: 'bafyreirecap' },
+    }),
+  })
+    .on('get', 'https://api.twitter.com/2/tweets?', () => ({
+      body: {
+        data: [
+          { id: '1800000000000000001', public_metrics: { like_count: 3, retweet_count: 1 } },
+          { id: '1800000000000000002', public_metrics: { like_count: 6, retweet_count: 0 } },
+          { id: '1700000000000000001', public_metrics: { like_count: 50, retweet_count: 9 } },
+        ],
+      },
+    }))
+    .on('get', 'https://public.api.bsky.app/xrpc/app.bsky.feed.getPosts', () => ({
+      body: { posts: [{ uri: BLUESKY_URI, cid: 'bafyreipost', likeCount: 4 }] },
+    }));
+  return { ...environment, behaviour };
+}
+
+test("the week's most engaged prompt is quoted from every account that posted it", () => {
+  const environment = setUp();
+  const { context, clock, server } = environment;
+
+  context.collectEngagementMetrics();
+  context.postWeeklyRecap();
+  clock.now += DAY_MS;
+  context.postWeeklyRecap();
+
+  // 吾輩は猫である: 4 on X plus 4 on Bluesky beats こころ's 6; the old post is outside the week
+  const tweets = server.requests
+    .filter((request) => request.method === 'post' && request.url.includes('twitter'))
+    .map((request) => request.json());
+  assert.equal(tweets.length, 1);
+  assert.equal(tweets[0].quote_tweet_id, '1800000000000000001');
+  assert.match(tweets[0].text, /第1位のお題\n『吾輩は猫である』夏目漱石著（反応8件）/);
+  assert.match(tweets[0].text, /#ランダム書写 #wagahai_12$/);
+
+  const records = server
+    .requestsTo('https://bsky.social/xrpc/com.atproto.repo.createRecord')
+    .map((request) => request.json());
+  assert.equal(records.length, 1);
+  assert.deepEqual(plain(records[0].record.embed), {
+    $type: 'app.bsky.embed.record',
+    record: { uri: BLUESKY_URI, cid: 'bafyreipost' },
+  });
+  assert.equal(records[0].record.text, tweets[0].text);
+});
+
+test('an account whose recap failed is retried without the others posting again', () => {
+  const environment = setUp();
+  const { context, clock, server, behaviour } = environment;
+  const posts = (fragment) =>
+    server.requests.filter(
+      (request) => request.method === 'post' && request.url.includes(fragment)
+    );
+
+  context.collectEngagementMetrics();
+  behaviour.tweetStatus = 403;
+  context.postWeeklyRecap();
+  behaviour.tweetStatus = 201;
+  clock.now += DAY_MS;
+  context.postWeeklyRecap();
+  clock.now += DAY_MS;
+  context.postWeeklyRecap();
+
+  assert.equal(posts('api.twitter.com/2/tweets').length, 2);
+  assert.equal(posts('com.atproto.repo.createRecord').length, 1);
+});
+
+test('an account without credentials is marked done instead of retried every run', () => {
+  const environment = setUp();
+  const { context, clock, logs, scriptProperties } = environment;
+  scriptProperties.deleteProperty('BSKY_RND_SHOSHA_APP_PASS');
+
+  context.collectEngagementMetrics();
+  context.postWeeklyRecap();
+  clock.now += DAY_MS;
+  context.postWeeklyRecap();
+
+  const skipped = logs.filter((line) => line.startsWith('Recap skipped for Bluesky:ja'));
+  assert.deepEqual(skipped, [
+    'Recap skipped for Bluesky:ja: credentials not configured',
+    'Recap skipped for Bluesky:ja: last one was posted at 2025-01-15T20:00:00.000Z',
+  ]);
+  assert.equal(
+    JSON.parse(scriptProperties.getProperty('RECAP_STATE'))['Bluesky:ja'].postedAt,
+    '2025-01-15T20:00:00.000Z'
+  );
+});
+
+test('with RECAP_TOP_N each account quotes that many prompts, ranked', () => {
+  const environment = setUp({ RECAP_TOP_N: '2' });
+  const { context, server } = environment;
+
+  context.collectEngagementMetrics();
+  context.postWeeklyRecap();
+
+  const tweets = server.requests
+    .filter((request) => request.method === 'post' && request.url.includes('twitter'))
+    .map((request) => request.json());
+  assert.deepEqual(
+    tweets.map((tweet) => [tweet.quote_tweet_id, tweet.text.split('\n')[0]]),
+    [
+      ['1800000000000000001', '今週の反響 第1位のお題'],
+      ['1800000000000000002', '今週の反響 第2位のお題'],
+    ]
+  );
+});
+
+test('a dry run logs the recap without posting or marking the week as done', () => {
+  const environment = setUp({ DRY_RUN: 'true' });
+  const { context, server, logs, scriptProperties } = environment;
+
+  context.collectEngagementMetrics();
+  context.postWeeklyRecap();
+
+  assert.equal(server.requests.filter((request) => request.method === 'post').length, 0);
+  assert.ok(logs.some((line) => line.startsWith('X dry run recap quoting 1800000000000000001')));
+  assert.equal(scriptProperties.getProperty('RECAP_STATE'), null);
+});
+
+test('long titles are shortened to fit and unsupported placeholders are rejected', () => {
+  const { context, evaluate } = loadCode();
+  const pick = {
+    lang: 'ja',
+    rank: 1,
+    book_id: 'long',
+    sentence_id: 1,
+    title: '長'.repeat(200),
+    author: '作者',
+    engagement: 5,
+    posts: [],
+  };
+
+  const text = context.renderRecapText(pick, evaluate('X_TEXT_LIMIT'));
+
+  assert.ok(context.countXLength(text) <= 280);
+  assert.match(text, /長…』作者著/);
+  assert.deepEqual(plain(context.validateTemplate('{sentence} {hashtags}', 'ja', 'recap')), [
+    'unknown placeholder {sentence}',
+  ]);
+});
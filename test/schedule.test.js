@@ -0,0 +1,104 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { loadCode, plain } = require('./gas-fakes');
+
+const SCHEDULE = [
+  { handler: 'postJapanese', timeZone: 'Asia/Tokyo', hour: 5, minute: 0 },
+  {
+    handler: 'postWeeklyRecap',
+    timeZone: 'America/New_York',
+    hour: 18,
+    minute: 30,
+    interval: 'weekly',
+    weekDay: 0,
+  },
+  { handler: 'collectSubmissions', interval: 'hourly', everyHours: 4 },
+];
+
+test('daily, weekly and hourly entries become triggers in the script time zone', () => {
+  const { context, scriptApp } = loadCode({
+    scriptProperties: { SCHEDULE_CONFIG: JSON.stringify(SCHEDULE) },
+  });
+
+  context.installScheduledTriggers();
+
+  assert.deepEqual(
+    scriptApp.triggers.map((trigger) => [trigger.handler, plain(trigger.schedule)]),
+    [
+      ['postJapanese', { hour: 5, minute: 0, everyDays: 1 }],
+      // Sunday 18:30 in New York (EST) is Monday 08:30 in Tokyo
+      ['postWeeklyRecap', { hour: 8, minute: 30, weekDay: 'MONDAY' }],
+      ['collectSubmissions', { everyHours: 4 }],
+      ['adjustScheduledTriggers', { hour: 1, everyDays: 1 }],
+    ]
+  );
+});
+
+test('reinstalling only replaces the triggers the installer created', () => {
+  const { context, scriptApp, scriptProperties } = loadCode({
+    scriptProperties: { SCHEDULE_CONFIG: JSON.stringify(SCHEDULE.slice(0, 1)) },
+  });
+  scriptApp.newTrigger('collectEngagementMetrics').timeBased().everyHours(6).create();
+
+  context.installScheduledTriggers();
+  context.installScheduledTriggers();
+
+  assert.deepEqual(
+    scriptApp.triggers.map((trigger) => trigger.handler),
+    ['collectEngagementMetrics', 'postJapanese', 'adjustScheduledTriggers']
+  );
+  assert.deepEqual(JSON.parse(scriptProperties.getProperty('SCHEDULE_TRIGGER_IDS')), [
+    'trigger-4',
+    'trigger-5',
+  ]);
+});
+
+test('an install from before trigger IDs were kept is matched by its handlers', () => {
+  const { context, scriptApp } = loadCode({
+    scriptProperties: {
+      SCHEDULE_CONFIG: JSON.stringify(SCHEDULE.slice(0, 1)),
+      SCHEDULE_STATE: JSON.stringify({ 'postJapanese@Asia/Tokyo': '05:00' }),
+    },
+  });
+  scriptApp.newTrigger('postJapanese').timeBased().atHour(5).everyDays(1).create();
+  scriptApp.newTrigger('adjustScheduledTriggers').timeBased().atHour(1).everyDays(1).create();
+  scriptApp.newTrigger('collectSubmissions').timeBased().everyHours(1).create();
+
+  context.installScheduledTriggers();
+
+  assert.deepEqual(
+    scriptApp.triggers.map((trigger) => trigger.handler),
+    ['collectSubmissions', 'postJapanese', 'adjustScheduledTriggers']
+  );
+});
+
+test('schedule entries with an unknown time zone or interval are rejected', () => {
+  const { context } = loadCode();
+
+  assert.deepEqual(
+    plain(
+      context.validateScheduleEntry({
+        handler: 'postJapanese',
+        timeZone: 'Asia/Nowhere',
+        hour: 5,
+        minute: 0,
+      })
+    ),
+    ['unknown time zone Asia/Nowhere']
+  );
+  assert.deepEqual(
+    plain(context.validateScheduleEntry({ handler: 'collectSubmissions', interval: 'hourly' })),
+    ['everyHours must be one of 1, 2, 4, 6, 8, 12']
+  );
+  assert.deepEqual(
+    plain(context.validateScheduleEntry({ handler: 'postJapanese', interval: 'monthly' })),
+    [
+      'interval must be "daily", "weekly" or "hourly"',
+      'hour must be an integer 0-23',
+      'minute must be an integer 0-59',
+      'unknown time zone undefined',
+    ]
+  );
+});
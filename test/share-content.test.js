@@ -0,0 +1,64 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { loadCode } = require('./gas-fakes');
+const { ENGLISH_SENTENCE, SENTENCE: JAPANESE_SENTENCE } = require('./fixtures');
+
+test('Japanese share content links the sentence page and tags the book', () => {
+  const { context } = loadCode();
+
+  const content = context.generateJapaneseShareContent(JAPANESE_SENTENCE);
+
+  assert.equal(content.lang, 'ja');
+  assert.equal(
+    content.url,
+    'https://rmc-8.com/shosha/random_shosha/?book_id=natsume-wagahai&sentence_id=12'
+  );
+  assert.ok(content.text.includes(content.url));
+  assert.ok(content.text.includes('#ランダム書写 #natsumewagahai_12'));
+  assert.ok(content.text.includes('吾輩は猫である'));
+});
+
+test('English share content uses the English page and hashtag', () => {
+  const { context } = loadCode();
+
+  const content = context.generateEnglishShareContent(ENGLISH_SENTENCE);
+
+  assert.equal(
+    content.url,
+    'https://rmc-8.com/shosha/random_shosha_en/?book_id=two-cities&sentence_id=3'
+  );
+  assert.ok(content.text.includes('#random_shosha #twocities_3'));
+});
+
+test('a per-platform template from Script Properties overrides the default', () => {
+  const { context } = loadCode({
+    scriptProperties: { POST_TEMPLATE_JA_BLUESKY: '{title}／{author}\\n{url}\\n{hashtags}' },
+  });
+
+  const bluesky = context.generateJapaneseShareContent(JAPANESE_SENTENCE, 'bluesky');
+  const x = context.generateJapaneseShareContent(JAPANESE_SENTENCE, 'x');
+
+  assert.equal(
+    bluesky.text,
+    '吾輩は猫である／夏目漱石\n' +
+      'https://rmc-8.com/shosha/random_shosha/?book_id=natsume-wagahai&sentence_id=12\n' +
+      '#ランダム書写 #natsumewagahai_12'
+  );
+  assert.notEqual(x.text, bluesky.text);
+});
+
+test('an invalid sentence response aborts before any share content is built', () => {
+  const { context } = loadCode();
+
+  assert.throws(
+    () => context.parseSentenceResponse('ja', '<!DOCTYPE html><html>Bad Gateway</html>'),
+    /ja API response is invalid: body is not JSON/
+  );
+  assert.throws(
+    () =>
+      context.parseSentenceResponse('ja', JSON.stringify({ ...JAPANESE_SENTENCE, book_id: '' })),
+    /book_id must not be empty/
+  );
+});
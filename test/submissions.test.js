@@ -0,0 +1,168 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { DEFAULT_NOW, loadCode } = require('./gas-fakes');
+const { BLUESKY_CREDENTIALS, setUpServers } = require('./fixtures');
+
+const IMAGE_EMBED = {
+  $type: 'app.bsky.embed.images#view',
+  images: [{ thumb: 'https://cdn.example/thumb.jpg', alt: '' }],
+};
+
+function searchResult(uri, handle, embed) {
+  return {
+    uri,
+    cid: `cid-${handle}`,
+    author: { did: `did:plc:${handle.split('.')[0]}`, handle },
+    indexedAt: new Date(DEFAULT_NOW - 60 * 60 * 1000).toISOString(),
+    ...(embed && { embed }),
+  };
+}
+
+function setUp(scriptProperties = {}) {
+  const environment = loadCode({
+    scriptProperties: {
+      ...BLUESKY_CREDENTIALS,
+      POST_LOG_SPREADSHEET_ID: 'sheet-id',
+      POST_HISTORY_JA: JSON.stringify([
+        {
+          lang: 'ja',
+          book_id: 'natsume-wagahai',
+          sentence_id: 12,
+          postedAt: new Date(DEFAULT_NOW - 2 * 24 * 60 * 60 * 1000).toISOString(),
+        },
+      ]),
+      ...scriptProperties,
+    },
+  });
+  const recordedBefore = [];
+  setUpServers(environment, {
+    createRecord: () => {
+      // Submissions already on the sheet when each record goes out
+      const sheet = environment.spreadsheet.getSheetByName('Submissions');
+      recordedBefore.push(sheet ? sheet.rows.length - 1 : 0);
+      return {
+        body: { uri: 'at://did:plc:bot/app.bsky.feed.post/3kroundup', cid: 'bafyreiroundup' },
+      };
+    },
+  })
+    .on('get', 'https://bsky.social/xrpc/app.bsky.feed.searchPosts', () => ({
+      body: {
+        posts: [
+          searchResult('at://did:plc:alice/app.bsky.feed.post/1', 'alice.bsky.social', IMAGE_EMBED),
+          searchResult('at://did:plc:bob/app.bsky.feed.post/2', 'bob.bsky.social', null),
+          searchResult('at://did:plc:bot/app.bsky.feed.post/3', 'bot.example.com', IMAGE_EMBED),
+        ],
+      },
+    }))
+    .on('get', 'https://bsky.social/xrpc/com.atproto.identity.resolveHandle', () => ({
+      body: { did: 'did:plc:alice' },
+    }));
+  return { ...environment, recordedBefore };
+}
+
+test('image posts under a sentence tag are recorded once and liked when enabled', () => {
+  const environment = setUp({ SUBMISSIONS_AUTO_LIKE: 'true' });
+  const { context, server, spreadsheet, recordedBefore } = environment;
+
+  context.collectSubmissions();
+  context.collectSubmissions();
+
+  const [search] = server.requestsTo('https://bsky.social/xrpc/app.bsky.feed.searchPosts');
+  assert.match(search.url, /[?&]tag=natsumewagahai_12(&|$)/);
+  assert.match(search.headers.Authorization, /^Bearer /);
+
+  const sheet = spreadsheet.getSheetByName('Submissions');
+  assert.deepEqual(sheet.rows.slice(1).map((row) => [row[3], row[2], row[8], row[9]]), [
+    ['alice.bsky.social', 'natsumewagahai_12', true, false],
+  ]);
+  // Saved before the like, so a run that dies mid-way never likes it twice
+  assert.deepEqual(recordedBefore, [1]);
+
+  const records = server
+    .requestsTo('https://bsky.social/xrpc/com.atproto.repo.createRecord')
+    .map((request) => request.json());
+  assert.equal(records.length, 1);
+  assert.equal(records[0].collection, 'app.bsky.feed.like');
+  assert.deepEqual(records[0].record.subject, {
+    uri: 'at://did:plc:alice/app.bsky.feed.post/1',
+    cid: 'cid-alice.bsky.social',
+  });
+});
+
+test('the weekly roundup mentions every participant and posts once per week', () => {
+  const environment = setUp();
+  const { context, clock, server } = environment;
+
+  context.collectSubmissions();
+  context.postSubmissionRoundup();
+  clock.now += 24 * 60 * 60 * 1000;
+  context.postSubmissionRoundup();
+
+  const roundups = server.requestsTo('https://bsky.social/xrpc/com.atproto.repo.createRecord');
+  assert.equal(roundups.length, 1);
+  const { record } = roundups[0].json();
+  assert.equal(record.$type, 'app.bsky.feed.post');
+  assert.match(record.text, /^今週の書写 1件（1人）/);
+  assert.match(record.text, /@alice\.bsky\.social/);
+  assert.ok(
+    record.facets.some(
+      (facet) =>
+        facet.features[0].$type === 'app.bsky.richtext.facet#mention' &&
+        facet.features[0].did === 'did:plc:alice'
+    )
+  );
+});
+
+test('the roundup counts every submission of the week, however many there are', () => {
+  const environment = setUp();
+  const { context, server, spreadsheet } = environment;
+  const sheet = spreadsheet.insertSheet('Submissions');
+  sheet.appendRow(environment.evaluate('SUBMISSIONS_HEADERS'));
+  for (let index = 0; index < 60; index++) {
+    const uri = `at://did:plc:fan/app.bsky.feed.post/${index}`;
+    const indexedAt = new Date(DEFAULT_NOW - index * 60 * 60 * 1000).toISOString();
+    sheet.appendRow([indexedAt, 'ja', 'natsumewagahai_12', 'fan.bsky.social', 'did:plc:fan', uri]);
+  }
+
+  context.postSubmissionRoundup();
+
+  const [roundup] = server.requestsTo('https://bsky.social/xrpc/com.atproto.repo.createRecord');
+  assert.match(roundup.json().record.text, /60件（1人）/);
+});
+
+test('each language gets its own roundup from its template', () => {
+  const environment = setUp({
+    ROUNDUP_TEMPLATE_EN: 'Thanks for {count} copies! {mentions}\\n{hashtags}',
+  });
+  const { context, server, spreadsheet } = environment;
+  const sheet = spreadsheet.insertSheet('Submissions');
+  sheet.appendRow(environment.evaluate('SUBMISSIONS_HEADERS'));
+  const indexedAt = new Date(DEFAULT_NOW - 60 * 60 * 1000).toISOString();
+  sheet.appendRow([indexedAt, 'ja', 'natsumewagahai_12', 'alice.bsky.social', 'did:plc:alice']);
+  sheet.appendRow([indexedAt, 'en', 'twocities_3', 'bob.bsky.social', 'did:plc:bob']);
+  sheet.appendRow([indexedAt, 'en', 'twocities_3', 'carol.bsky.social', 'did:plc:carol']);
+
+  context.postSubmissionRoundup();
+
+  const texts = server
+    .requestsTo('https://bsky.social/xrpc/com.atproto.repo.createRecord')
+    .map((request) => request.json().record.text);
+  assert.deepEqual(texts, [
+    '今週の書写 1件（1人）ありがとうございました！\n@alice.bsky.social\n#ランダム書写',
+    'Thanks for 2 copies! @bob.bsky.social @carol.bsky.social\n#random_shosha',
+  ]);
+});
+
+test('the roundup mention list is cut to fit the Bluesky limit', () => {
+  const { context } = loadCode();
+  const submissions = Array.from({ length: 40 }, (_, index) => ({
+    handle: `participant-${index}.bsky.social`,
+  }));
+
+  const text = context.buildRoundupText(submissions, 'ja');
+
+  assert.ok(context.countBlueskyLength(text) <= 300);
+  assert.match(text, /\+\d+\n#ランダム書写$/);
+});
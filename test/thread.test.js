@@ -0,0 +1,71 @@
+'use strict';
+
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { loadCode, plain } = require('./gas-fakes');
+const { CREDENTIALS, SENTENCE, setUpServers } = require('./fixtures');
+
+const TWEETS_URL = 'https://api.twitter.com/2/tweets';
+const CREATE_RECORD_URL = 'https://bsky.social/xrpc/com.atproto.repo.createRecord';
+
+// 400 characters: 800 weighted on X, 400 graphemes on Bluesky
+const LONG_SENTENCE = { ...SENTENCE, sentence_text: '吾輩は猫である。'.repeat(50) };
+
+test('long text is split at sentence ends into chunks that fit', () => {
+  const { context } = loadCode();
+
+  const chunks = plain(
+    context.splitTextForThread(LONG_SENTENCE.sentence_text, 280, context.countXLength)
+  );
+
+  assert.deepEqual(chunks.map((chunk) => context.countXLength(chunk)), [272, 272, 256]);
+  assert.ok(chunks.every((chunk) => chunk.endsWith('。')));
+  assert.equal(chunks.join(''), LONG_SENTENCE.sentence_text);
+});
+
+test('a sentence too long for one chunk is cut hard and the next sentence starts anew', () => {
+  const { context } = loadCode();
+  const measure = (text) => text.length;
+
+  const chunks = plain(context.splitTextForThread(`${'あ'.repeat(12)}。いう`, 10, measure));
+
+  assert.deepEqual(chunks, ['ああああああああああ', 'ああ。', 'いう']);
+});
+
+test('thread replies chain on X and Bluesky and carry the whole sentence', () => {
+  const environment = loadCode({ scriptProperties: { ...CREDENTIALS, THREAD_MODE: 'true' } });
+  let tweets = 0;
+  let records = 0;
+  setUpServers(environment, {
+    sentence: () => ({ body: LONG_SENTENCE }),
+    tweets: () => ({ status: 201, body: { data: { id: `18000000000000000${++tweets}` } } }),
+    createRecord: () => {
+      records++;
+      return {
+        body: { uri: `at://did:plc:bot/app.bsky.feed.post/${records}`, cid: `cid${records}` },
+      };
+    },
+  });
+  const { context, server } = environment;
+
+  context.postJapanese();
+
+  const [, ...replies] = server.requestsTo(TWEETS_URL).map((request) => request.json());
+  assert.deepEqual(
+    replies.map((reply) => reply.reply.in_reply_to_tweet_id),
+    ['180000000000000001', '180000000000000002', '180000000000000003']
+  );
+  assert.equal(replies.map((reply) => reply.text).join(''), LONG_SENTENCE.sentence_text);
+
+  const [, ...blueskyReplies] = server
+    .requestsTo(CREATE_RECORD_URL)
+    .map((request) => request.json().record);
+  assert.deepEqual(
+    blueskyReplies.map((record) => [record.reply.root.uri, record.reply.parent.cid]),
+    [
+      ['at://did:plc:bot/app.bsky.feed.post/1', 'cid1'],
+      ['at://did:plc:bot/app.bsky.feed.post/1', 'cid2'],
+    ]
+  );
+  assert.equal(blueskyReplies.map((record) => record.text).join(''), LONG_SENTENCE.sentence_text);
+});